@@ -4,74 +4,67 @@ import {
 } from '@atproto/oauth-client-browser';
 import { Agent } from '@atproto/api';
 import { atprotoLoopbackClientMetadata } from '@atproto/oauth-types';
-import { getMeditationSessions, getPresets } from './services/API';
+import { getOAuthClientConfig, OAUTH_SCOPE } from './services/OAuthConfig';
+import { registerServiceWorker } from './services/AppShell';
+import {
+  getAllMeditationSessions,
+  getAllPresets,
+  getAllSounds,
+} from './services/API';
 import Store from './services/Store';
+import { InvalidRecord } from './services/Lexicons';
 import { NavigationManager } from './services/Navigation';
-import { createButton } from './services/UIComponents';
-
-// Type definitions
-interface SoundInterval {
-  time: number;
-  soundType: string;
-}
-
-interface PaginationOptions {
-  limit?: number;
-  cursor?: string | null;
-  reverse?: boolean;
-}
-
-interface MeditationSessionData {
-  uri: string;
-  cid: string;
-  createdAt: string;
-  duration: number;
-  presetId: string | null;
-  notes: string | null;
-}
-
-interface MeditationSessionsResponse {
-  meditationSessions: MeditationSessionData[];
-  cursor: string | null;
-  total: number;
-}
-
-interface PresetData {
-  uri: string;
-  cid: string;
-  name: string;
-  duration: number;
-  createdAt: string;
-  soundIntervals: SoundInterval[];
-}
-
-interface PresetsResponse {
-  presets: PresetData[];
-  cursor: string | null;
-  total: number;
-}
-
-interface CreateRecordResponse {
-  uri: string;
-  cid: string;
-  validationStatus?: string;
-}
+import { isRouteHash } from './services/Router';
+import { flushOutbox, mergePendingSessions } from './services/Outbox';
+import {
+  clearCache,
+  loadStoreFromCache,
+  reconcileRecords,
+  watchStoreForCache,
+} from './services/Cache';
+import { clearFeedCache } from './services/Feed';
+import {
+  forgetAccount,
+  getAccountLabel,
+  getKnownAccounts,
+  rememberAccount,
+} from './services/Accounts';
+import { clearContainer, createButton } from './services/UIComponents';
 
 // Global variables
-let oauthClient: BrowserOAuthClient;
+export let oauthClient: BrowserOAuthClient;
 export let session: OAuthSession | null = null;
 let navigationManager: NavigationManager;
+let loadController: AbortController | null = null;
+
+const REVOKE_FAILED_MESSAGE =
+  'Signed out on this device, but the sign-in could not be revoked with your server. Revoke it in your account settings if this device is shared.';
 
 async function initOAuthClient(): Promise<void> {
   try {
+    // Hosted builds use their published client metadata; local development
+    // falls back to a loopback client
+    const config = getOAuthClientConfig();
     oauthClient = new BrowserOAuthClient({
-      handleResolver: 'https://bsky.social',
-      clientMetadata: atprotoLoopbackClientMetadata(
-        `http://localhost?${new URLSearchParams([
-          ['redirect_uri', `http://127.0.0.1:8080`],
-          ['scope', `atproto transition:generic`],
-        ])}`
-      ),
+      handleResolver: config.handleResolver,
+      plcDirectoryUrl: config.plcDirectoryUrl,
+      // A local development network serves its PDS and PLC over plain HTTP
+      allowHttp: config.mode === 'loopback',
+      clientMetadata:
+        config.mode === 'hosted'
+          ? config.clientMetadata
+          : atprotoLoopbackClientMetadata(config.clientId),
+    });
+
+    // Sessions can be deleted by the client, e.g. when a refresh token
+    // expires; stop offering those accounts in the switcher
+    oauthClient.addEventListener('deleted', (event) => {
+      const { sub } = event.detail;
+      forgetAccount(sub);
+      if (sub !== session?.sub) {
+        Store.forgetAccount(sub);
+      }
+      renderAccountSwitcher();
     });
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -83,6 +76,12 @@ async function initOAuthClient(): Promise<void> {
 initOAuthClient();
 
 window.addEventListener('DOMContentLoaded', async () => {
+  // Cache the app so it opens offline and can be installed
+  registerServiceWorker();
+
+  // Save changes to the active account's data for the next startup
+  watchStoreForCache();
+
   // Check for existing session on load
   // Check both query string and hash fragment
   const queryParams = new URLSearchParams(window.location.search);
@@ -121,6 +120,7 @@ window.addEventListener('DOMContentLoaded', async () => {
 
         // Start OAuth flow with granular permissions for our custom collections
         await oauthClient.signIn(handle, {
+          scope: OAUTH_SCOPE,
           state: JSON.stringify({ returnTo: window.location.href }),
           signal: new AbortController().signal,
         });
@@ -131,29 +131,135 @@ window.addEventListener('DOMContentLoaded', async () => {
       }
     });
 
-  // Set up logout button event listener
+  // Return from the login screen to the active account
+  document
+    .getElementById('cancelAddAccountButton')!
+    .addEventListener('click', () => {
+      showAppScreen();
+    });
+
+  // Set up logout button event listener: signs out of the active account
+  // and switches to the next remembered one, if any
   document
     .getElementById('logoutButton')!
     .addEventListener('click', async () => {
+      if (!session) return;
+
       try {
-        if (session) {
-          await oauthClient.revoke(session.sub);
-        }
+        // Stop any history download still in progress
+        loadController?.abort();
 
-        // Clear local session
+        const revoked = await signOutAccount(session.sub);
         session = null;
 
-        // Show login screen
-        showLoginScreen();
-        showStatus('loginStatus', 'Signed out successfully');
+        const [nextAccount] = getKnownAccounts();
+        if (nextAccount) {
+          await switchAccount(nextAccount.did);
+          if (!revoked && session) {
+            showStatus('accountStatus', REVOKE_FAILED_MESSAGE, true);
+          }
+        } else {
+          showSignedOut(revoked);
+        }
       } catch (error) {
         const errorMsg =
           error instanceof Error ? error.message : 'Unknown error';
-        showStatus('appStatus', `Logout failed: ${errorMsg}`, true);
+        showStatus('accountStatus', `Logout failed: ${errorMsg}`, true);
+      }
+    });
+
+  // Sign out of every remembered account
+  document
+    .getElementById('logoutAllButton')!
+    .addEventListener('click', async () => {
+      loadController?.abort();
+
+      let revoked = true;
+      for (const account of getKnownAccounts()) {
+        if (!(await signOutAccount(account.did))) {
+          revoked = false;
+        }
       }
+
+      session = null;
+      Store.reset();
+      showSignedOut(revoked);
     });
 });
 
+// Revoke an account's session and drop everything kept for it locally.
+// The local data is dropped even if the session cannot be revoked, e.g.
+// while offline; returns false in that case.
+async function signOutAccount(did: string): Promise<boolean> {
+  let revoked = true;
+  try {
+    await oauthClient.revoke(did);
+  } catch (error) {
+    console.error(`Failed to revoke the session of ${did}:`, error);
+    revoked = false;
+  }
+  // Drop the Store's data first, so no pending cache save rewrites it
+  Store.forgetAccount(did);
+  await clearCache(did).catch((error) => {
+    console.error('Failed to clear cache:', error);
+  });
+  await clearFeedCache(did).catch((error) => {
+    console.error('Failed to clear feed cache:', error);
+  });
+  forgetAccount(did);
+  return revoked;
+}
+
+// Show the login screen once no account is active
+function showSignedOut(revoked: boolean = true): void {
+  // Forget the current route so the next user starts at the menu
+  navigationManager?.stopRouting();
+  history.replaceState(
+    null,
+    '',
+    window.location.pathname + window.location.search
+  );
+
+  showLoginScreen();
+  if (revoked) {
+    showStatus('loginStatus', 'Signed out successfully');
+  } else {
+    showStatus('loginStatus', REVOKE_FAILED_MESSAGE, true);
+  }
+}
+
+/**
+ * Make another remembered account the active one
+ * @param did - DID of the account to switch to
+ */
+async function switchAccount(did: string): Promise<void> {
+  if (did === session?.sub) return;
+
+  try {
+    const restored = await oauthClient.restore(did);
+    await activateSession(restored);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to switch to ${did}:`, errorMsg);
+
+    if (session) {
+      renderAccountSwitcher();
+      showStatus(
+        'accountStatus',
+        `Could not switch account: ${errorMsg}`,
+        true
+      );
+    } else {
+      showLoginScreen();
+      showStatus(
+        'loginStatus',
+        `Could not restore account, please sign in again: ${errorMsg}`,
+        true
+      );
+    }
+  }
+}
+
 // Restore session from storage
 async function restoreSession(): Promise<void> {
   try {
@@ -161,18 +267,15 @@ async function restoreSession(): Promise<void> {
     const result = await oauthClient.init();
 
     if (result) {
-      session = result.session;
-      showAppScreen();
-      updateUserInfo();
-      await loadUserData();
-      initializeMainMenu();
+      // After signing in, return to the route the user started from
+      await activateSession(result.session, getReturnRoute(result.state));
 
       if (result.state) {
         console.log(
-          `${session.sub} was successfully authenticated (state: ${result.state})`
+          `${result.session.sub} was successfully authenticated (state: ${result.state})`
         );
       } else {
-        console.log(`${session.sub} was restored (last active session)`);
+        console.log(`${result.session.sub} was restored (last active session)`);
       }
     } else {
       showLoginScreen();
@@ -183,60 +286,236 @@ async function restoreSession(): Promise<void> {
   }
 }
 
+/**
+ * Show the app for a signed-in account
+ * @param newSession - Session of the account to show
+ * @param initialRoute - Route to open instead of the one in the URL
+ */
+async function activateSession(
+  newSession: OAuthSession,
+  initialRoute?: string
+): Promise<void> {
+  // Stop loading the previous account's history
+  loadController?.abort();
+
+  const did = newSession.sub;
+  session = newSession;
+  rememberAccount(did);
+  showAppScreen();
+  renderAccountSwitcher();
+  updateUserInfo();
+
+  // Render from data already in memory or the local cache right away when
+  // there is some, and reconcile with the PDS in the background
+  const hasData =
+    Store.setAccount(did) ||
+    (await loadStoreFromCache(did).catch((error) => {
+      console.error('Failed to read cache:', error);
+      return false;
+    }));
+
+  // Another account may have been chosen while the cache was read
+  if (session?.sub !== did) return;
+
+  if (hasData) {
+    initializeMainMenu(initialRoute);
+    loadUserData();
+  } else {
+    await loadUserData();
+    initializeMainMenu(initialRoute);
+  }
+}
+
+// Read the route saved in the OAuth state when sign-in started
+function getReturnRoute(state?: string | null): string | undefined {
+  if (!state) return undefined;
+
+  try {
+    const { returnTo } = JSON.parse(state);
+    const hash = new URL(returnTo).hash;
+    return isRouteHash(hash) ? hash.slice(1) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 async function updateUserInfo(): Promise<void> {
   if (!session) return;
 
+  const did = session.sub;
   const agent = new Agent(session);
 
+  const userDisplayNameEl = document.getElementById(
+    'userDisplayName'
+  ) as HTMLElement;
+  const userHandleEl = document.getElementById('userHandle') as HTMLElement;
+  const userDidEl = document.getElementById('userDid') as HTMLElement;
+
+  // Clear the previous account's details while the profile loads
+  userDisplayNameEl.textContent = '';
+  userHandleEl.textContent = did;
+  userDidEl.textContent = '';
+
   try {
     const profile = await agent.app.bsky.actor.getProfile({
-      actor: session.sub,
+      actor: did,
     });
 
-    const userDisplayNameEl = document.getElementById(
-      'userDisplayName'
-    ) as HTMLElement;
-    const userHandleEl = document.getElementById('userHandle') as HTMLElement;
-    const userDidEl = document.getElementById('userDid') as HTMLElement;
-
     console.log('profile data', profile.data);
     const displayName = profile.data.displayName ?? '';
+    rememberAccount(did, {
+      handle: profile.data.handle,
+      displayName: displayName || null,
+    });
+
+    // The user may have switched accounts while the profile loaded
+    if (session?.sub !== did) return;
+
     userDisplayNameEl.textContent = displayName;
     userHandleEl.textContent = profile.data.handle;
-    userDidEl.textContent = session.sub;
+    userDidEl.textContent = did;
+    renderAccountSwitcher();
   } catch (error) {
-    // Fallback: just show DID
-    const userHandleEl = document.getElementById('userHandle') as HTMLElement;
-    const userDidEl = document.getElementById('userDid') as HTMLElement;
+    if (session?.sub !== did) return;
 
-    userHandleEl.textContent = session.sub;
+    // Fallback: just show DID
+    userHandleEl.textContent = did;
     userDidEl.textContent = '(handle unavailable in loopback mode)';
   }
 }
 
+// Render the account picker and the controls for adding accounts
+function renderAccountSwitcher(): void {
+  const container = document.getElementById('accountSwitcher');
+  if (!container) return;
+
+  clearContainer(container);
+  const accounts = getKnownAccounts();
+
+  if (accounts.length > 1) {
+    const label = document.createElement('label');
+    label.textContent = 'Switch account:';
+    const select = document.createElement('select');
+    accounts.forEach((account) => {
+      const option = document.createElement('option');
+      option.value = account.did;
+      option.textContent = getAccountLabel(account);
+      select.appendChild(option);
+    });
+    select.value = session?.sub ?? '';
+    select.addEventListener('change', () => {
+      switchAccount(select.value);
+    });
+    label.appendChild(select);
+    container.appendChild(label);
+  }
+
+  container.appendChild(
+    createButton('Add Account', 'secondary', () => {
+      showLoginScreen(true);
+    })
+  );
+
+  document.getElementById('logoutAllButton')!.style.display =
+    accounts.length > 1 ? '' : 'none';
+}
+
 async function loadUserData(): Promise<void> {
   if (!session) return;
 
+  loadController = new AbortController();
+  const { signal } = loadController;
+  const invalidRecords: InvalidRecord[] = [];
+  const onInvalidRecords = (records: InvalidRecord[]) => {
+    invalidRecords.push(...records);
+  };
+
   try {
-    // Fetch meditation sessions and update the Store
-    const sessionsResponse = await getMeditationSessions();
-    Store.meditationSessions = sessionsResponse.meditationSessions;
+    // Fetch every page of meditation sessions and apply the differences
+    const meditationSessions = await getAllMeditationSessions({
+      signal,
+      onInvalidRecords,
+      onProgress: (loaded) => {
+        showStatus('appStatus', `Loading sessions... ${loaded} loaded`);
+      },
+    });
+    // Switching accounts aborts the load; never write into another
+    // account's Store
+    signal.throwIfAborted();
+    const sessionChanges = reconcileRecords(
+      Store.getState().meditationSessions,
+      meditationSessions
+    );
+    Store.setState({ meditationSessions: sessionChanges.records });
+    console.log(
+      `Loaded ${meditationSessions.length} meditation sessions ` +
+        `(${sessionChanges.added} added, ${sessionChanges.changed} changed, ${sessionChanges.removed} removed)`
+    );
+
+    // Fetch every page of presets and apply the differences
+    const presets = await getAllPresets({
+      signal,
+      onInvalidRecords,
+      onProgress: (loaded) => {
+        showStatus('appStatus', `Loading presets... ${loaded} loaded`);
+      },
+    });
+    signal.throwIfAborted();
+    const presetChanges = reconcileRecords(Store.getState().presets, presets);
+    Store.setState({ presets: presetChanges.records });
     console.log(
-      `Loaded ${sessionsResponse.meditationSessions.length} meditation sessions`
+      `Loaded ${presets.length} presets ` +
+        `(${presetChanges.added} added, ${presetChanges.changed} changed, ${presetChanges.removed} removed)`
     );
 
-    // Fetch presets and update the Store
-    const presetsResponse = await getPresets();
-    Store.presets = presetsResponse.presets;
-    console.log(`Loaded ${presetsResponse.presets.length} presets`);
+    // Fetch every page of uploaded sounds and apply the differences
+    const sounds = await getAllSounds({
+      signal,
+      onInvalidRecords,
+      onProgress: (loaded) => {
+        showStatus('appStatus', `Loading sounds... ${loaded} loaded`);
+      },
+    });
+    signal.throwIfAborted();
+    const soundChanges = reconcileRecords(Store.getState().sounds, sounds);
+    Store.setState({ sounds: soundChanges.records });
+    console.log(
+      `Loaded ${sounds.length} sounds ` +
+        `(${soundChanges.added} added, ${soundChanges.changed} changed, ${soundChanges.removed} removed)`
+    );
+
+    // Show sessions still waiting in the outbox and retry sending them
+    await mergePendingSessions();
+    signal.throwIfAborted();
+    flushOutbox(true);
+
+    // Records from other clients that do not match our lexicons are skipped
+    Store.setState({ invalidRecords });
+    if (invalidRecords.length > 0) {
+      showStatus(
+        'appStatus',
+        `Ready to meditate! ${invalidRecords.length} record(s) could not be read and were skipped.`,
+        true
+      );
+    } else {
+      showStatus('appStatus', 'Ready to meditate!');
+    }
   } catch (error) {
+    if (signal.aborted) return;
+
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     console.error('Failed to load user data:', errorMsg);
+    showStatus('appStatus', `Failed to load your data: ${errorMsg}`, true);
+  } finally {
+    if (loadController?.signal === signal) {
+      loadController = null;
+    }
   }
 }
 
-function initializeMainMenu(): void {
-  // Initialize navigation manager
+function initializeMainMenu(initialRoute?: string): void {
+  // Initialize navigation manager, replacing the previous account's
+  navigationManager?.stopRouting();
   navigationManager = new NavigationManager();
 
   // Get menu container
@@ -246,7 +525,7 @@ function initializeMainMenu(): void {
   // Clear existing content
   menuContainer.innerHTML = '';
 
-  // Create the two main menu buttons
+  // Create the main menu buttons
   const startMeditationBtn = createButton(
     'Start New Meditation',
     'primary',
@@ -259,9 +538,37 @@ function initializeMainMenu(): void {
     navigationManager.showPastSessions();
   });
 
+  const viewStatsBtn = createButton('View Statistics', 'primary', () => {
+    navigationManager.showStats();
+  });
+
+  const managePresetsBtn = createButton('Manage Presets', 'primary', () => {
+    navigationManager.showPresetsList();
+  });
+
+  const exportBtn = createButton('Export Data', 'primary', () => {
+    navigationManager.showExport();
+  });
+
+  const importBtn = createButton('Import History', 'primary', () => {
+    navigationManager.showImport();
+  });
+
+  const feedBtn = createButton("Friends' Activity", 'primary', () => {
+    navigationManager.showFeed();
+  });
+
   // Append buttons to container
   menuContainer.appendChild(startMeditationBtn);
   menuContainer.appendChild(viewSessionsBtn);
+  menuContainer.appendChild(viewStatsBtn);
+  menuContainer.appendChild(feedBtn);
+  menuContainer.appendChild(managePresetsBtn);
+  menuContainer.appendChild(exportBtn);
+  menuContainer.appendChild(importBtn);
+
+  // Show the view for the current URL and follow back/forward navigation
+  navigationManager.startRouting(initialRoute);
 }
 
 // UI Helper functions
@@ -271,7 +578,14 @@ function showLoadingScreen(): void {
   document.getElementById('appSection')!.classList.remove('active');
 }
 
-function showLoginScreen(): void {
+/**
+ * Show the login form
+ * @param addingAccount - true when signing in to another account while one
+ * is active, offering a way back to it
+ */
+function showLoginScreen(addingAccount: boolean = false): void {
+  document.getElementById('cancelAddAccountButton')!.style.display =
+    addingAccount ? '' : 'none';
   document.getElementById('loadingSection')!.classList.remove('active');
   document.getElementById('loginSection')!.classList.add('active');
   document.getElementById('appSection')!.classList.remove('active');
@@ -288,7 +602,10 @@ function showStatus(
   message: string,
   isError: boolean = false
 ): void {
-  const statusEl = document.getElementById(elementId) as HTMLElement;
+  const statusEl = document.getElementById(elementId);
+  // The app status line is removed once the user leaves the main menu
+  if (!statusEl) return;
+
   statusEl.textContent = message;
   statusEl.style.display = 'block';
 
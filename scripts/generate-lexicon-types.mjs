@@ -0,0 +1,263 @@
+/**
+ * Generates TypeScript record types, type guards and record-to-model
+ * mappers from the lexicon documents in lexicons/.
+ *
+ * Usage: node scripts/generate-lexicon-types.mjs
+ * Output: services/LexiconTypes.ts
+ */
+
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+const lexiconDir = join(rootDir, 'lexicons');
+const outputFile = join(rootDir, 'services', 'LexiconTypes.ts');
+
+// Types for refs to lexicons outside this repo
+const EXTERNAL_REFS = {
+  'com.atproto.repo.strongRef': 'StrongRef',
+};
+
+// Recursively find every .json file under a directory
+function findLexiconFiles(dir) {
+  return readdirSync(dir)
+    .sort()
+    .flatMap((name) => {
+      const path = join(dir, name);
+      if (statSync(path).isDirectory()) return findLexiconFiles(path);
+      return name.endsWith('.json') ? [path] : [];
+    });
+}
+
+function pascalCase(name) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// Type name for a def: the record itself is named after the NSID's last
+// segment, other defs after the def name
+function typeName(nsid, defName) {
+  return pascalCase(defName === 'main' ? nsid.split('.').pop() : defName);
+}
+
+function docComment(description, indent = '') {
+  return description ? `${indent}/** ${description} */\n` : '';
+}
+
+function resolveRef(nsid, ref) {
+  if (ref.startsWith('#')) return typeName(nsid, ref.slice(1));
+
+  const [refNsid, defName = 'main'] = ref.split('#');
+  const key = defName === 'main' ? refNsid : ref;
+  if (EXTERNAL_REFS[key]) return EXTERNAL_REFS[key];
+  return typeName(refNsid, defName);
+}
+
+function tsType(nsid, schema) {
+  switch (schema.type) {
+    case 'string':
+      return schema.knownValues
+        ? `${schema.knownValues
+            .map((v) => `'${v}'`)
+            .join(' | ')} | (string & {})`
+        : 'string';
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'blob':
+      return 'BlobRef';
+    case 'array':
+      return `${wrapUnion(tsType(nsid, schema.items))}[]`;
+    case 'ref':
+      return resolveRef(nsid, schema.ref);
+    case 'union':
+      return schema.refs.map((ref) => resolveRef(nsid, ref)).join(' | ');
+    default:
+      return 'unknown';
+  }
+}
+
+function wrapUnion(type) {
+  return type.includes(' | ') ? `(${type})` : type;
+}
+
+function renderObjectType(nsid, name, object, extraFields = []) {
+  const required = new Set(object.required ?? []);
+  const fields = Object.entries(object.properties ?? {}).map(
+    ([key, schema]) =>
+      `${docComment(schema.description, '  ')}  ${key}${
+        required.has(key) ? '' : '?'
+      }: ${tsType(nsid, schema)};`
+  );
+  return `export type ${name} = {\n${[...extraFields, ...fields].join(
+    '\n'
+  )}\n};\n`;
+}
+
+// Model type: record fields plus uri and cid, with optional fields made
+// explicit (null, or an empty array for arrays)
+function renderModel(nsid, name, object) {
+  const required = new Set(object.required ?? []);
+  const fields = Object.entries(object.properties ?? {}).map(
+    ([key, schema]) => {
+      const type = tsType(nsid, schema);
+      if (required.has(key) || schema.type === 'array') {
+        return `  ${key}: ${type};`;
+      }
+      return `  ${key}: ${wrapUnion(type)} | null;`;
+    }
+  );
+  return `export type ${name}Data = {\n  uri: string;\n  cid: string;\n${fields.join(
+    '\n'
+  )}\n};\n`;
+}
+
+function renderMapper(name, object) {
+  const required = new Set(object.required ?? []);
+  const fields = Object.entries(object.properties ?? {}).map(
+    ([key, schema]) => {
+      if (required.has(key)) return `    ${key}: value.${key},`;
+      if (schema.type === 'array') return `    ${key}: value.${key} ?? [],`;
+      return `    ${key}: value.${key} ?? null,`;
+    }
+  );
+  return `/**
+ * Maps a validated ${name} record value to the app's model
+ */
+export function to${name}Data(
+  uri: string,
+  cid: string,
+  value: ${name}Record
+): ${name}Data {
+  return {
+    uri,
+    cid,
+${fields.join('\n')}
+  };
+}
+`;
+}
+
+// Inverse of renderMapper: optional fields left null are omitted, arrays
+// are always written
+function renderRecordMapper(nsid, name, object) {
+  const required = new Set(object.required ?? []);
+  const fields = Object.entries(object.properties ?? {}).map(
+    ([key, schema]) => {
+      if (required.has(key) || schema.type === 'array') {
+        return `    ${key}: data.${key},`;
+      }
+      return `    ...(data.${key} !== null && { ${key}: data.${key} }),`;
+    }
+  );
+  let signature = `export function to${name}Record(data: ${name}Data): ${name}Record {`;
+  // Keep within the 80 column width used by the rest of the code
+  if (signature.length > 80) {
+    signature = `export function to${name}Record(\n  data: ${name}Data\n): ${name}Record {`;
+  }
+  return `/**
+ * Maps the app's model back to a ${name} record value
+ */
+${signature}
+  return {
+    $type: '${nsid}',
+${fields.join('\n')}
+  };
+}
+`;
+}
+
+function renderGuard(nsid, name) {
+  let signature = `export function is${name}Record(value: unknown): value is ${name}Record {`;
+  // Keep within the 80 column width used by the rest of the code
+  if (signature.length > 80) {
+    signature = `export function is${name}Record(\n  value: unknown\n): value is ${name}Record {`;
+  }
+  return `/**
+ * Checks a value against the ${nsid} lexicon
+ */
+${signature}
+  return validateRecord('${nsid}', value) === null;
+}
+`;
+}
+
+function generate() {
+  const files = findLexiconFiles(lexiconDir);
+  const sections = [];
+  const names = new Set();
+
+  const claimName = (name, nsid) => {
+    if (names.has(name)) {
+      throw new Error(`Duplicate generated type name ${name} (from ${nsid})`);
+    }
+    names.add(name);
+  };
+
+  for (const file of files) {
+    const doc = JSON.parse(readFileSync(file, 'utf8'));
+    const nsid = doc.id;
+    const parts = [`// ${nsid} (${relative(rootDir, file)})\n`];
+
+    for (const [defName, def] of Object.entries(doc.defs)) {
+      const name = typeName(nsid, defName);
+
+      if (def.type === 'record') {
+        claimName(`${name}Record`, nsid);
+        parts.push(
+          docComment(def.description) +
+            renderObjectType(nsid, `${name}Record`, def.record, [
+              `  $type: '${nsid}';`,
+            ]),
+          renderModel(nsid, name, def.record),
+          renderGuard(nsid, name),
+          renderMapper(name, def.record),
+          renderRecordMapper(nsid, name, def.record)
+        );
+      } else if (def.type === 'object') {
+        claimName(name, nsid);
+        parts.push(
+          docComment(def.description) + renderObjectType(nsid, name, def)
+        );
+      } else if (def.type === 'string' && def.knownValues) {
+        claimName(name, nsid);
+        parts.push(
+          docComment(def.description) +
+            `export type ${name} = ${tsType(nsid, def)};\n`
+        );
+      }
+    }
+
+    sections.push(parts.join('\n'));
+  }
+
+  const source = `// Generated by scripts/generate-lexicon-types.mjs from lexicons/. Do not edit.
+// Run \`npm run codegen\` after changing a lexicon.
+
+import type { BlobRef } from '@atproto/lexicon';
+import { validateRecord } from './Lexicons';
+
+export type StrongRef = {
+  uri: string;
+  cid: string;
+};
+
+${sections.join('\n')}`;
+
+  // Drop the BlobRef import when no lexicon uses blobs
+  const output =
+    source.includes(': BlobRef') || source.includes('BlobRef;')
+      ? source
+      : source.replace(
+          "import type { BlobRef } from '@atproto/lexicon';\n",
+          ''
+        );
+
+  writeFileSync(outputFile, output);
+  console.log(
+    `Wrote ${relative(rootDir, outputFile)} from ${files.length} lexicon(s)`
+  );
+}
+
+generate();
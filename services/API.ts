@@ -2,15 +2,58 @@ import {
   OAuthSession,
   buildLoopbackClientId,
 } from '@atproto/oauth-client-browser';
-import { Agent } from '@atproto/api';
+import {
+  Agent,
+  AppBskyFeedPost,
+  AtUri,
+  ComAtprotoRepoApplyWrites,
+  ComAtprotoRepoDeleteRecord,
+  ComAtprotoRepoGetRecord,
+  ComAtprotoRepoPutRecord,
+} from '@atproto/api';
+import { ResponseType, XRPCError } from '@atproto/xrpc';
 import { atprotoLoopbackClientMetadata } from '@atproto/oauth-types';
-import { session } from '../app';
+import { oauthClient, session } from '../app';
+import Store, { MeditationSessionData } from './Store';
+import {
+  InvalidRecord,
+  MEDITATION_SESSION_NSID,
+  PRESET_NSID,
+  SOUND_MAX_SIZE,
+  SOUND_MIME_TYPES,
+  SOUND_NSID,
+  assertValidRecord,
+  validateRecord,
+} from './Lexicons';
+import {
+  CustomSound,
+  MeditationSessionRecord,
+  PresetData,
+  PresetRecord,
+  RecurringSound,
+  Segment,
+  SoundData,
+  SoundInterval,
+  SoundRecord,
+  StrongRef,
+  isMeditationSessionRecord,
+  isPresetRecord,
+  isSoundRecord,
+  toMeditationSessionData,
+  toPresetData,
+  toSoundData,
+} from './LexiconTypes';
+import {
+  MAX_SOUNDS,
+  expandSoundIntervals,
+  getOneOffIntervals,
+} from './SoundRules';
+import { MAX_SEGMENTS, getSegmentsDuration } from './Segments';
 
-// Type definitions (imported from app.ts concepts)
-interface SoundInterval {
-  time: number;
-  soundType: string;
-}
+// Type definitions
+
+// Most writes a PDS accepts in one applyWrites call
+const MAX_BATCH_WRITES = 200;
 
 interface PaginationOptions {
   limit?: number;
@@ -18,42 +61,86 @@ interface PaginationOptions {
   reverse?: boolean;
 }
 
-interface MeditationSessionData {
-  uri: string;
-  cid: string;
-  createdAt: string;
-  duration: number;
-  presetId: string | null;
-  notes: string | null;
+interface LoadAllOptions {
+  onProgress?: (loaded: number) => void;
+  onInvalidRecords?: (records: InvalidRecord[]) => void;
+  signal?: AbortSignal;
 }
 
+// total is the number of records in this page, not in the whole collection.
+// Records that fail lexicon validation are in invalidRecords instead.
 interface MeditationSessionsResponse {
   meditationSessions: MeditationSessionData[];
+  invalidRecords: InvalidRecord[];
   cursor: string | null;
   total: number;
 }
 
-interface PresetData {
-  uri: string;
-  cid: string;
-  name: string;
-  duration: number;
-  createdAt: string;
-  soundIntervals: SoundInterval[];
+// Uploaded sounds a preset plays
+interface PresetAudio {
+  customSounds: CustomSound[];
+  guidedAudio: StrongRef | null;
+}
+
+// How presets use an uploaded sound; values from newer clients are kept
+type SoundKind = NonNullable<SoundData['kind']>;
+
+interface SoundsResponse {
+  sounds: SoundData[];
+  invalidRecords: InvalidRecord[];
+  cursor: string | null;
+  total: number;
 }
 
 interface PresetsResponse {
   presets: PresetData[];
+  invalidRecords: InvalidRecord[];
   cursor: string | null;
   total: number;
 }
 
+// Whether a session may appear in friends' feeds; null means public.
+// Values other than 'public' and 'private' may come from newer clients.
+type SessionVisibility = NonNullable<MeditationSessionRecord['visibility']>;
+
+// Another account's repo, read directly from its PDS
+interface PublicRepo {
+  did: string;
+  handle: string | null;
+  pds: string;
+}
+
+// Profile of an account shown in the friends' feed
+interface ProfileSummary {
+  did: string;
+  handle: string;
+  displayName: string | null;
+  avatar: string | null;
+}
+
+interface FollowsResponse {
+  follows: ProfileSummary[];
+  cursor: string | null;
+}
+
 interface CreateRecordResponse {
   uri: string;
   cid: string;
   validationStatus?: string;
 }
 
+interface BatchCreate {
+  collection: string;
+  rkey: string;
+  record: MeditationSessionRecord | PresetRecord;
+}
+
+interface ListedRecord<T = { [key: string]: unknown }> {
+  uri: string;
+  cid: string;
+  value: T;
+}
+
 // Helper: Validate session exists
 function ensureSession(): OAuthSession {
   if (!session) {
@@ -68,29 +155,81 @@ function createAgent(): Agent {
 }
 
 /**
- * Create a new meditation session record
- * @param {number} duration - Duration in seconds (required, must be >= 0)
- * @param {string} presetId - Optional reference to preset used
- * @param {string} notes - Optional user notes (max 1000 chars)
- * @returns {Promise<CreateRecordResponse>} Returns { uri, cid, validationStatus }
- * @throws {Error} If user not logged in or API call fails
+ * Extract the record key from an at:// URI
+ * @param {string} uri - Record URI
+ * @returns {string} The record key
+ * @throws {Error} If the URI has no record key
  */
-async function createMeditationSession(
-  duration: number,
-  presetId: string | null = null,
-  notes: string | null = null
-): Promise<CreateRecordResponse> {
-  // Parameter validation
-  if (typeof duration !== 'number' || duration < 0) {
-    throw new Error('Duration must be a non-negative number');
+export function getRecordKey(uri: string): string {
+  const rkey = uri.split('/').pop();
+  if (!rkey) {
+    throw new Error(`Invalid record URI: ${uri}`);
   }
+  return rkey;
+}
 
-  if (presetId && typeof presetId !== 'string') {
-    throw new Error('presetId must be a string');
+/**
+ * Thrown when a record was changed or deleted elsewhere (e.g. on another
+ * device) since it was loaded, so an update or delete was rejected.
+ */
+class RecordConflictError extends Error {
+  constructor(public uri: string) {
+    super(
+      'This record was changed on another device since it was loaded. Reload to get the latest version and try again.'
+    );
+    this.name = 'RecordConflictError';
   }
+}
 
-  if (presetId && presetId.length > 100) {
-    throw new Error('presetId cannot exceed 100 characters');
+// Helper: Translate swap failures into a RecordConflictError
+function rethrowConflict(error: unknown, uri: string): never {
+  if (
+    error instanceof ComAtprotoRepoPutRecord.InvalidSwapError ||
+    error instanceof ComAtprotoRepoDeleteRecord.InvalidSwapError
+  ) {
+    throw new RecordConflictError(uri);
+  }
+  throw error;
+}
+
+/**
+ * Returns true if a failed request may succeed when sent again: network
+ * failures, rate limits and server errors. A request the PDS refused, e.g.
+ * as invalid or unauthorized, fails the same way every time.
+ * @param {unknown} error - Error thrown by an API call
+ * @returns {boolean} false if retrying cannot help
+ */
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof XRPCError)) return true;
+  return (
+    error.status < ResponseType.InvalidRequest ||
+    error.status === ResponseType.RateLimitExceeded ||
+    error.status >= ResponseType.InternalServerError
+  );
+}
+
+// Helper: Check that a reference has an at:// URI and a CID
+function isStrongRef(ref: StrongRef): boolean {
+  return (
+    typeof ref.uri === 'string' &&
+    ref.uri.startsWith('at://') &&
+    typeof ref.cid === 'string' &&
+    !!ref.cid
+  );
+}
+
+// Helper: Validate meditation session fields against the lexicon
+function validateMeditationSession(
+  duration: number,
+  preset: StrongRef | null,
+  notes: string | null
+): void {
+  if (!Number.isFinite(duration) || duration < 0) {
+    throw new Error('Duration must be a non-negative number');
+  }
+
+  if (preset && !isStrongRef(preset)) {
+    throw new Error('preset must be a reference with an at:// uri and a cid');
   }
 
   if (notes && typeof notes !== 'string') {
@@ -100,21 +239,73 @@ async function createMeditationSession(
   if (notes && notes.length > 1000) {
     throw new Error('notes cannot exceed 1000 characters');
   }
+}
 
-  // Build record object
-  const record: Record<string, unknown> = {
+// Helper: Build a meditation session record object from validated fields.
+// legacyPresetId keeps the old free-form presetId of records written before
+// sessions referenced presets by URI and CID.
+function buildMeditationSessionRecord(
+  duration: number,
+  preset: StrongRef | null,
+  notes: string | null,
+  createdAt: string,
+  visibility: SessionVisibility | null = null,
+  legacyPresetId: string | null = null
+): MeditationSessionRecord {
+  const record: MeditationSessionRecord = {
     $type: 'place.starting.meditationSession',
-    createdAt: new Date().toISOString(),
+    createdAt: createdAt,
     duration: Math.floor(duration),
   };
 
   // Add optional fields only if provided
-  if (presetId) {
-    record.presetId = presetId;
+  if (preset) {
+    record.preset = { uri: preset.uri, cid: preset.cid };
+    // Older clients only understand presetId, which is limited to 100 chars
+    if (preset.uri.length <= 100) {
+      record.presetId = preset.uri;
+    }
+  } else if (legacyPresetId) {
+    record.presetId = legacyPresetId;
   }
   if (notes) {
     record.notes = notes;
   }
+  // Public is the default, so it is left out of the record
+  if (visibility && visibility !== 'public') {
+    record.visibility = visibility;
+  }
+
+  assertValidRecord(MEDITATION_SESSION_NSID, record);
+  return record;
+}
+
+/**
+ * Create a new meditation session record
+ * @param {number} duration - Duration in seconds (required, must be >= 0)
+ * @param {StrongRef} preset - Optional { uri, cid } of the preset used
+ * @param {string} notes - Optional user notes (max 1000 chars)
+ * @param {string} createdAt - When the session took place (defaults to now)
+ * @param {SessionVisibility} visibility - 'private' keeps the session out of friends' feeds
+ * @returns {Promise<CreateRecordResponse>} Returns { uri, cid, validationStatus }
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function createMeditationSession(
+  duration: number,
+  preset: StrongRef | null = null,
+  notes: string | null = null,
+  createdAt: string = new Date().toISOString(),
+  visibility: SessionVisibility | null = null
+): Promise<CreateRecordResponse> {
+  validateMeditationSession(duration, preset, notes);
+
+  const record = buildMeditationSessionRecord(
+    duration,
+    preset,
+    notes,
+    createdAt,
+    visibility
+  );
 
   // Create record via AT Protocol API
   const agent = createAgent();
@@ -132,19 +323,165 @@ async function createMeditationSession(
 }
 
 /**
- * Create a new meditation preset record
- * @param {string} name - Preset name (required, max 100 chars)
+ * Validate and build a meditation session record without writing it
  * @param {number} duration - Duration in seconds (required, must be >= 0)
- * @param {SoundInterval[]} soundIntervals - Optional array of { time, soundType } objects
+ * @param {StrongRef} preset - Optional { uri, cid } of the preset used
+ * @param {string} notes - Optional user notes (max 1000 chars)
+ * @param {string} createdAt - When the session was created
+ * @param {SessionVisibility} visibility - 'private' keeps the session out of friends' feeds
+ * @returns {MeditationSessionRecord} Record ready for putMeditationSession
+ * @throws {Error} If validation fails
+ */
+function prepareMeditationSessionRecord(
+  duration: number,
+  preset: StrongRef | null,
+  notes: string | null,
+  createdAt: string,
+  visibility: SessionVisibility | null = null
+): MeditationSessionRecord {
+  validateMeditationSession(duration, preset, notes);
+  return buildMeditationSessionRecord(
+    duration,
+    preset,
+    notes,
+    createdAt,
+    visibility
+  );
+}
+
+/**
+ * Write a meditation session record under a caller-chosen record key.
+ * Writing the same key again replaces the record instead of adding another,
+ * so retries can never create duplicates.
+ * @param {string} did - Account the session belongs to; the write is refused if another account is signed in
+ * @param {string} rkey - Record key (a TID)
+ * @param {MeditationSessionRecord} record - Record from prepareMeditationSessionRecord
  * @returns {Promise<CreateRecordResponse>} Returns { uri, cid, validationStatus }
+ * @throws {Error} If the account is not signed in or API call fails
+ */
+async function putMeditationSession(
+  did: string,
+  rkey: string,
+  record: MeditationSessionRecord
+): Promise<CreateRecordResponse> {
+  const current = ensureSession();
+  if (current.sub !== did) {
+    throw new Error('Another account is signed in. The session was not sent.');
+  }
+
+  // Bound to the account's own session, so switching accounts during the
+  // write cannot redirect it
+  const agent = new Agent(current);
+  const response = await agent.com.atproto.repo.putRecord({
+    repo: did,
+    collection: 'place.starting.meditationSession',
+    rkey: rkey,
+    record: record,
+  });
+
+  return {
+    uri: response.data.uri,
+    cid: response.data.cid,
+    validationStatus: response.data.validationStatus,
+  };
+}
+
+/**
+ * Replace an existing meditation session record and update the Store
+ * @param {MeditationSessionData} existing - Session as loaded; its cid guards against overwriting newer changes
+ * @param {object} changes - Fields to change: { duration, preset, notes, visibility }
+ * @returns {Promise<MeditationSessionData>} The updated session
+ * @throws {RecordConflictError} If the record changed since it was loaded
  * @throws {Error} If validation fails or API call fails
  */
-async function createPreset(
+async function updateMeditationSession(
+  existing: MeditationSessionData,
+  changes: Partial<
+    Pick<MeditationSessionData, 'duration' | 'preset' | 'notes' | 'visibility'>
+  >
+): Promise<MeditationSessionData> {
+  const updated: MeditationSessionData = { ...existing, ...changes };
+  validateMeditationSession(updated.duration, updated.preset, updated.notes);
+
+  const record = buildMeditationSessionRecord(
+    updated.duration,
+    updated.preset,
+    updated.notes,
+    updated.createdAt,
+    updated.visibility,
+    updated.preset ? null : updated.presetId
+  );
+  updated.presetId = record.presetId ?? null;
+  updated.visibility = record.visibility ?? null;
+
+  const agent = createAgent();
+  try {
+    const response = await agent.com.atproto.repo.putRecord({
+      repo: session!.sub,
+      collection: 'place.starting.meditationSession',
+      rkey: getRecordKey(existing.uri),
+      record: record,
+      swapRecord: existing.cid,
+    });
+    updated.cid = response.data.cid;
+  } catch (error) {
+    rethrowConflict(error, existing.uri);
+  }
+
+  Store.setState((state) => ({
+    meditationSessions: state.meditationSessions.map((s) =>
+      s.uri === existing.uri ? updated : s
+    ),
+  }));
+  return updated;
+}
+
+/**
+ * Delete a meditation session record and remove it from the Store
+ * @param {MeditationSessionData} existing - Session as loaded; its cid guards against deleting newer changes
+ * @throws {RecordConflictError} If the record changed since it was loaded
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function deleteMeditationSession(
+  existing: MeditationSessionData
+): Promise<void> {
+  const agent = createAgent();
+  try {
+    await agent.com.atproto.repo.deleteRecord({
+      repo: session!.sub,
+      collection: 'place.starting.meditationSession',
+      rkey: getRecordKey(existing.uri),
+      swapRecord: existing.cid,
+    });
+  } catch (error) {
+    rethrowConflict(error, existing.uri);
+  }
+
+  Store.setState((state) => ({
+    meditationSessions: state.meditationSessions.filter(
+      (s) => s.uri !== existing.uri
+    ),
+  }));
+}
+
+/**
+ * Validate preset fields against the place.starting.preset lexicon
+ * @param {string} name - Preset name (required, max 100 chars)
+ * @param {number} duration - Duration in seconds (required, must be >= 0)
+ * @param {SoundInterval[]} soundIntervals - Optional array of { time, soundType } objects
+ * @param {RecurringSound[]} recurringSounds - Optional array of { start, period, count, soundType } rules
+ * @param {Segment[]} segments - Optional array of { name, duration, guidance, transitionSound } segments; duration must be their sum
+ * @param {PresetAudio} audio - Optional uploaded sounds: { customSounds, guidedAudio }
+ * @throws {Error} Describing the first rule that is violated
+ */
+function validatePreset(
   name: string,
   duration: number,
-  soundIntervals: SoundInterval[] | null = null
-): Promise<CreateRecordResponse> {
-  // Parameter validation
+  soundIntervals: SoundInterval[] | null = null,
+  recurringSounds: RecurringSound[] | null = null,
+  segments: Segment[] | null = null,
+  audio: PresetAudio | null = null
+): void {
   if (!name || typeof name !== 'string') {
     throw new Error('name is required and must be a string');
   }
@@ -153,7 +490,7 @@ async function createPreset(
     throw new Error('name cannot exceed 100 characters');
   }
 
-  if (typeof duration !== 'number' || duration < 0) {
+  if (typeof duration !== 'number' || isNaN(duration) || duration < 0) {
     throw new Error('duration must be a non-negative number');
   }
 
@@ -192,19 +529,263 @@ async function createPreset(
     }
   }
 
-  // Build record object
-  const record: Record<string, unknown> = {
+  // Validate recurring sounds if provided
+  if (recurringSounds) {
+    if (!Array.isArray(recurringSounds)) {
+      throw new Error('recurringSounds must be an array');
+    }
+
+    for (let i = 0; i < recurringSounds.length; i++) {
+      const rule = recurringSounds[i];
+
+      if (!Number.isInteger(rule.start) || rule.start < 0) {
+        throw new Error(
+          `recurringSounds[${i}].start must be a non-negative whole number`
+        );
+      }
+
+      if (!Number.isInteger(rule.period) || rule.period < 1) {
+        throw new Error(
+          `recurringSounds[${i}].period must be at least 1 second`
+        );
+      }
+
+      if (
+        rule.count !== undefined &&
+        (!Number.isInteger(rule.count) || rule.count < 1)
+      ) {
+        throw new Error(`recurringSounds[${i}].count must be at least 1`);
+      }
+
+      if (!rule.soundType || typeof rule.soundType !== 'string') {
+        throw new Error(
+          `recurringSounds[${i}].soundType is required and must be a string`
+        );
+      }
+
+      if (rule.soundType.length > 50) {
+        throw new Error(
+          `recurringSounds[${i}].soundType cannot exceed 50 characters`
+        );
+      }
+
+      const lastTime =
+        rule.count === undefined
+          ? rule.start
+          : rule.start + (rule.count - 1) * rule.period;
+      if (lastTime > duration) {
+        throw new Error(
+          `recurringSounds[${i}] cannot play later than preset duration`
+        );
+      }
+    }
+  }
+
+  // Validate segments if provided
+  if (segments) {
+    if (!Array.isArray(segments)) {
+      throw new Error('segments must be an array');
+    }
+
+    if (segments.length > MAX_SEGMENTS) {
+      throw new Error(`A preset can have at most ${MAX_SEGMENTS} segments`);
+    }
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+
+      if (!segment.name || typeof segment.name !== 'string') {
+        throw new Error(`segments[${i}].name is required and must be a string`);
+      }
+
+      if (segment.name.length > 100) {
+        throw new Error(`segments[${i}].name cannot exceed 100 characters`);
+      }
+
+      if (!Number.isInteger(segment.duration) || segment.duration < 1) {
+        throw new Error(`segments[${i}].duration must be at least 1 second`);
+      }
+
+      if (segment.guidance !== undefined && segment.guidance.length > 1000) {
+        throw new Error(
+          `segments[${i}].guidance cannot exceed 1000 characters`
+        );
+      }
+
+      if (
+        segment.transitionSound !== undefined &&
+        segment.transitionSound.length > 50
+      ) {
+        throw new Error(
+          `segments[${i}].transitionSound cannot exceed 50 characters`
+        );
+      }
+    }
+
+    if (
+      segments.length > 0 &&
+      getSegmentsDuration(segments) !== Math.floor(duration)
+    ) {
+      throw new Error('duration must equal the total of the segment durations');
+    }
+  }
+
+  // Validate uploaded sounds if provided
+  if (audio) {
+    const soundTypes = new Set<string>();
+    for (let i = 0; i < audio.customSounds.length; i++) {
+      const customSound = audio.customSounds[i];
+
+      if (!customSound.soundType || customSound.soundType.length > 50) {
+        throw new Error(
+          `customSounds[${i}].soundType is required and cannot exceed 50 characters`
+        );
+      }
+
+      if (soundTypes.has(customSound.soundType)) {
+        throw new Error(
+          `customSounds[${i}].soundType is already bound to another sound`
+        );
+      }
+      soundTypes.add(customSound.soundType);
+
+      if (!isStrongRef(customSound.sound)) {
+        throw new Error(
+          `customSounds[${i}].sound must be a reference with an at:// uri and a cid`
+        );
+      }
+    }
+
+    if (audio.guidedAudio && !isStrongRef(audio.guidedAudio)) {
+      throw new Error(
+        'guidedAudio must be a reference with an at:// uri and a cid'
+      );
+    }
+  }
+
+  // Bound the expanded list that is written for older clients
+  const total = expandSoundIntervals(
+    duration,
+    soundIntervals ?? [],
+    recurringSounds ?? [],
+    segments ?? []
+  ).length;
+  if (total > MAX_SOUNDS) {
+    throw new Error(`A preset can ring at most ${MAX_SOUNDS} sounds`);
+  }
+}
+
+// Helper: Build a preset record object from validated fields.
+// soundIntervals in the record also lists the sounds the recurring rules
+// and segment transitions produce, so clients that do not know those
+// fields ring the same bells.
+function buildPresetRecord(
+  name: string,
+  duration: number,
+  soundIntervals: SoundInterval[] | null,
+  recurringSounds: RecurringSound[] | null,
+  segments: Segment[] | null,
+  audio: PresetAudio | null,
+  createdAt: string,
+  copiedFrom: StrongRef | null = null
+): PresetRecord {
+  const record: PresetRecord = {
     $type: 'place.starting.preset',
     name: name,
     duration: Math.floor(duration),
-    createdAt: new Date().toISOString(),
+    createdAt: createdAt,
   };
 
   // Add sound intervals if provided
-  if (soundIntervals && soundIntervals.length > 0) {
-    record.soundIntervals = soundIntervals;
+  const allSounds = expandSoundIntervals(
+    Math.floor(duration),
+    soundIntervals ?? [],
+    recurringSounds ?? [],
+    segments ?? []
+  );
+  if (allSounds.length > 0) {
+    record.soundIntervals = allSounds;
+  }
+  if (recurringSounds && recurringSounds.length > 0) {
+    record.recurringSounds = recurringSounds.map((rule) => ({
+      start: rule.start,
+      period: rule.period,
+      ...(rule.count !== undefined && { count: rule.count }),
+      soundType: rule.soundType,
+    }));
+  }
+  if (segments && segments.length > 0) {
+    record.segments = segments.map((segment) => ({
+      name: segment.name,
+      duration: segment.duration,
+      ...(segment.guidance && { guidance: segment.guidance }),
+      ...(segment.transitionSound && {
+        transitionSound: segment.transitionSound,
+      }),
+    }));
+  }
+
+  // Uploaded sounds, possibly in other users' repos
+  if (audio && audio.customSounds.length > 0) {
+    record.customSounds = audio.customSounds.map((customSound) => ({
+      soundType: customSound.soundType,
+      sound: { uri: customSound.sound.uri, cid: customSound.sound.cid },
+    }));
+  }
+  if (audio?.guidedAudio) {
+    record.guidedAudio = {
+      uri: audio.guidedAudio.uri,
+      cid: audio.guidedAudio.cid,
+    };
+  }
+
+  // Keep attribution to the preset this one was copied from
+  if (copiedFrom) {
+    record.copiedFrom = { uri: copiedFrom.uri, cid: copiedFrom.cid };
   }
 
+  assertValidRecord(PRESET_NSID, record);
+  return record;
+}
+
+/**
+ * Create a new meditation preset record and add it to the Store
+ * @param {string} name - Preset name (required, max 100 chars)
+ * @param {number} duration - Duration in seconds (required, must be >= 0)
+ * @param {SoundInterval[]} soundIntervals - Optional array of { time, soundType } objects
+ * @param {RecurringSound[]} recurringSounds - Optional array of { start, period, count, soundType } rules
+ * @param {Segment[]} segments - Optional array of { name, duration, guidance, transitionSound } segments; duration must be their sum
+ * @param {PresetAudio} audio - Optional uploaded sounds: { customSounds, guidedAudio }
+ * @returns {Promise<PresetData>} The new preset
+ * @throws {Error} If validation fails or API call fails
+ */
+async function createPreset(
+  name: string,
+  duration: number,
+  soundIntervals: SoundInterval[] | null = null,
+  recurringSounds: RecurringSound[] | null = null,
+  segments: Segment[] | null = null,
+  audio: PresetAudio | null = null
+): Promise<PresetData> {
+  validatePreset(
+    name,
+    duration,
+    soundIntervals,
+    recurringSounds,
+    segments,
+    audio
+  );
+
+  const record = buildPresetRecord(
+    name,
+    duration,
+    soundIntervals,
+    recurringSounds,
+    segments,
+    audio,
+    new Date().toISOString()
+  );
+
   // Create record via AT Protocol API
   const agent = createAgent();
   const response = await agent.com.atproto.repo.createRecord({
@@ -213,6 +794,443 @@ async function createPreset(
     record: record,
   });
 
+  const created = toPresetData(response.data.uri, response.data.cid, record);
+  Store.setState((state) => ({
+    presets: [created, ...state.presets],
+  }));
+  return created;
+}
+
+/**
+ * Copy a preset, usually one from another user's repo, into the signed-in
+ * user's repo and add it to the Store. The copy records the original's URI
+ * and CID in copiedFrom.
+ * @param {PresetData} source - Preset to copy
+ * @returns {Promise<PresetData>} The new preset
+ * @throws {Error} If the preset does not pass validation or API call fails
+ */
+async function copyPreset(source: PresetData): Promise<PresetData> {
+  const oneOffs = getOneOffIntervals(
+    source.soundIntervals,
+    source.recurringSounds,
+    source.duration,
+    source.segments
+  );
+  const sourceAudio = {
+    customSounds: source.customSounds,
+    guidedAudio: source.guidedAudio,
+  };
+  validatePreset(
+    source.name,
+    source.duration,
+    oneOffs,
+    source.recurringSounds,
+    source.segments,
+    sourceAudio
+  );
+
+  const copiedFrom = { uri: source.uri, cid: source.cid };
+  const record = buildPresetRecord(
+    source.name,
+    source.duration,
+    oneOffs,
+    source.recurringSounds,
+    source.segments,
+    sourceAudio,
+    new Date().toISOString(),
+    copiedFrom
+  );
+
+  const agent = createAgent();
+  const response = await agent.com.atproto.repo.createRecord({
+    repo: session!.sub,
+    collection: 'place.starting.preset',
+    record: record,
+  });
+
+  const created = toPresetData(response.data.uri, response.data.cid, record);
+  Store.setState((state) => ({
+    presets: [created, ...state.presets],
+  }));
+  return created;
+}
+
+/**
+ * Validate and build a preset record without writing it
+ * @param {string} name - Preset name (required, max 100 chars)
+ * @param {number} duration - Duration in seconds (required, must be >= 0)
+ * @param {SoundInterval[]} soundIntervals - Optional array of { time, soundType } objects
+ * @param {string} createdAt - When the preset was created
+ * @param {RecurringSound[]} recurringSounds - Optional array of { start, period, count, soundType } rules
+ * @param {Segment[]} segments - Optional array of { name, duration, guidance, transitionSound } segments; duration must be their sum
+ * @param {PresetAudio} audio - Optional uploaded sounds: { customSounds, guidedAudio }
+ * @returns {PresetRecord} Record ready for createRecordsBatch
+ * @throws {Error} If validation fails
+ */
+function preparePresetRecord(
+  name: string,
+  duration: number,
+  soundIntervals: SoundInterval[] | null,
+  createdAt: string,
+  recurringSounds: RecurringSound[] | null = null,
+  segments: Segment[] | null = null,
+  audio: PresetAudio | null = null
+): PresetRecord {
+  validatePreset(
+    name,
+    duration,
+    soundIntervals,
+    recurringSounds,
+    segments,
+    audio
+  );
+  return buildPresetRecord(
+    name,
+    duration,
+    soundIntervals,
+    recurringSounds,
+    segments,
+    audio,
+    createdAt
+  );
+}
+
+/**
+ * Create several records in a single atomic applyWrites call. Either every
+ * record is written or none is, so a failed batch can simply be retried.
+ * @param {BatchCreate[]} writes - Validated records as { collection, rkey, record }, at most MAX_BATCH_WRITES
+ * @returns {Promise<CreateRecordResponse[]>} Returns { uri, cid, validationStatus } for each record, in order
+ * @throws {Error} If user not logged in, the batch is too large or the API call fails
+ */
+async function createRecordsBatch(
+  writes: BatchCreate[]
+): Promise<CreateRecordResponse[]> {
+  if (writes.length > MAX_BATCH_WRITES) {
+    throw new Error(`A batch can hold at most ${MAX_BATCH_WRITES} writes`);
+  }
+
+  const agent = createAgent();
+  const response = await agent.com.atproto.repo.applyWrites({
+    repo: session!.sub,
+    writes: writes.map((write) => ({
+      $type: 'com.atproto.repo.applyWrites#create' as const,
+      collection: write.collection,
+      rkey: write.rkey,
+      value: write.record,
+    })),
+  });
+
+  const results = (response.data.results ?? []).filter(
+    ComAtprotoRepoApplyWrites.isCreateResult
+  );
+  if (results.length !== writes.length) {
+    throw new Error('The PDS did not confirm every record in the batch');
+  }
+
+  return results.map((result) => ({
+    uri: result.uri,
+    cid: result.cid,
+    validationStatus: result.validationStatus,
+  }));
+}
+
+/**
+ * Look up which records of a batch already exist in the signed-in user's
+ * repo, e.g. after a batch whose response was lost although the PDS
+ * committed it
+ * @param {BatchCreate[]} writes - Records as passed to createRecordsBatch
+ * @returns {Promise<(CreateRecordResponse | null)[]>} For each write, the existing record, or null if there is none
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function findExistingRecords(
+  writes: BatchCreate[]
+): Promise<(CreateRecordResponse | null)[]> {
+  const agent = createAgent();
+  const found: (CreateRecordResponse | null)[] = [];
+
+  for (const write of writes) {
+    try {
+      const response = await agent.com.atproto.repo.getRecord({
+        repo: session!.sub,
+        collection: write.collection,
+        rkey: write.rkey,
+      });
+      found.push({ uri: response.data.uri, cid: response.data.cid! });
+    } catch (error) {
+      if (!(error instanceof ComAtprotoRepoGetRecord.RecordNotFoundError)) {
+        throw error;
+      }
+      found.push(null);
+    }
+  }
+  return found;
+}
+
+/**
+ * Replace an existing meditation preset record and update the Store
+ * @param {PresetData} existing - Preset as loaded; its cid guards against overwriting newer changes
+ * @param {string} name - Preset name (required, max 100 chars)
+ * @param {number} duration - Duration in seconds (required, must be >= 0)
+ * @param {SoundInterval[]} soundIntervals - Optional array of { time, soundType } objects
+ * @param {RecurringSound[]} recurringSounds - Optional array of { start, period, count, soundType } rules
+ * @param {Segment[]} segments - Optional array of { name, duration, guidance, transitionSound } segments; duration must be their sum
+ * @param {PresetAudio} audio - Optional uploaded sounds: { customSounds, guidedAudio }
+ * @returns {Promise<PresetData>} The updated preset
+ * @throws {RecordConflictError} If the record changed since it was loaded
+ * @throws {Error} If validation fails or API call fails
+ */
+async function updatePreset(
+  existing: PresetData,
+  name: string,
+  duration: number,
+  soundIntervals: SoundInterval[] | null = null,
+  recurringSounds: RecurringSound[] | null = null,
+  segments: Segment[] | null = null,
+  audio: PresetAudio | null = null
+): Promise<PresetData> {
+  validatePreset(
+    name,
+    duration,
+    soundIntervals,
+    recurringSounds,
+    segments,
+    audio
+  );
+
+  const record = buildPresetRecord(
+    name,
+    duration,
+    soundIntervals,
+    recurringSounds,
+    segments,
+    audio,
+    existing.createdAt,
+    existing.copiedFrom
+  );
+
+  const agent = createAgent();
+  let cid: string;
+  try {
+    const response = await agent.com.atproto.repo.putRecord({
+      repo: session!.sub,
+      collection: 'place.starting.preset',
+      rkey: getRecordKey(existing.uri),
+      record: record,
+      swapRecord: existing.cid,
+    });
+    cid = response.data.cid;
+  } catch (error) {
+    rethrowConflict(error, existing.uri);
+  }
+
+  const updated: PresetData = {
+    ...existing,
+    cid,
+    name,
+    duration: Math.floor(duration),
+    soundIntervals: record.soundIntervals ?? [],
+    recurringSounds: record.recurringSounds ?? [],
+    segments: record.segments ?? [],
+    customSounds: record.customSounds ?? [],
+    guidedAudio: record.guidedAudio ?? null,
+  };
+  Store.setState((state) => ({
+    presets: state.presets.map((p) => (p.uri === existing.uri ? updated : p)),
+  }));
+  return updated;
+}
+
+/**
+ * Delete a meditation preset record and remove it from the Store
+ * @param {PresetData} existing - Preset as loaded; its cid guards against deleting newer changes
+ * @throws {RecordConflictError} If the record changed since it was loaded
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function deletePreset(existing: PresetData): Promise<void> {
+  const agent = createAgent();
+  try {
+    await agent.com.atproto.repo.deleteRecord({
+      repo: session!.sub,
+      collection: 'place.starting.preset',
+      rkey: getRecordKey(existing.uri),
+      swapRecord: existing.cid,
+    });
+  } catch (error) {
+    rethrowConflict(error, existing.uri);
+  }
+
+  Store.setState((state) => ({
+    presets: state.presets.filter((p) => p.uri !== existing.uri),
+  }));
+}
+
+/**
+ * Validate a recording and its name before uploading them
+ * @param {Blob} file - Recording
+ * @param {string} name - Sound name (required, max 100 chars)
+ * @throws {Error} Describing the first rule that is violated
+ */
+function validateSound(file: Blob, name: string): void {
+  if (!name || typeof name !== 'string') {
+    throw new Error('name is required and must be a string');
+  }
+
+  if (name.length > 100) {
+    throw new Error('name cannot exceed 100 characters');
+  }
+
+  if (!SOUND_MIME_TYPES.includes(file.type)) {
+    throw new Error(
+      `Unsupported audio format ${
+        file.type || '(unknown)'
+      }. Use MP3, M4A, AAC, Ogg, WebM, WAV or FLAC.`
+    );
+  }
+
+  if (file.size === 0) {
+    throw new Error('The file is empty');
+  }
+
+  if (file.size > SOUND_MAX_SIZE) {
+    throw new Error(
+      `Recordings are limited to ${Math.floor(SOUND_MAX_SIZE / 1_000_000)} MB`
+    );
+  }
+}
+
+/**
+ * Upload a recording to the signed-in user's PDS and create a sound record
+ * referencing it, then add the sound to the Store
+ * @param {Blob} file - Recording in one of the accepted audio formats
+ * @param {string} name - Sound name (required, max 100 chars)
+ * @param {SoundKind} kind - 'bell' or 'guidance'
+ * @param {number} duration - Length of the recording in seconds, or null if unknown
+ * @returns {Promise<SoundData>} The new sound
+ * @throws {Error} If validation fails, the PDS rejects the blob or API call fails
+ */
+async function uploadSound(
+  file: Blob,
+  name: string,
+  kind: SoundKind,
+  duration: number | null = null
+): Promise<SoundData> {
+  validateSound(file, name);
+
+  const agent = createAgent();
+  const upload = await agent.com.atproto.repo.uploadBlob(file, {
+    encoding: file.type,
+  });
+
+  const record: SoundRecord = {
+    $type: 'place.starting.sound',
+    name,
+    kind,
+    audio: upload.data.blob,
+    ...(duration !== null && { duration: Math.round(duration) }),
+    createdAt: new Date().toISOString(),
+  };
+  assertValidRecord(SOUND_NSID, record);
+
+  const response = await agent.com.atproto.repo.createRecord({
+    repo: session!.sub,
+    collection: SOUND_NSID,
+    record: record,
+  });
+
+  const created = toSoundData(response.data.uri, response.data.cid, record);
+  Store.setState((state) => ({
+    sounds: [created, ...state.sounds],
+  }));
+  return created;
+}
+
+/**
+ * Delete a sound record and remove it from the Store. Its blob is removed
+ * by the PDS once no record references it. Presets that use the sound play
+ * a default bell instead.
+ * @param {SoundData} existing - Sound as loaded; its cid guards against deleting newer changes
+ * @throws {RecordConflictError} If the record changed since it was loaded
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function deleteSound(existing: SoundData): Promise<void> {
+  const agent = createAgent();
+  try {
+    await agent.com.atproto.repo.deleteRecord({
+      repo: session!.sub,
+      collection: SOUND_NSID,
+      rkey: getRecordKey(existing.uri),
+      swapRecord: existing.cid,
+    });
+  } catch (error) {
+    rethrowConflict(error, existing.uri);
+  }
+
+  Store.setState((state) => ({
+    sounds: state.sounds.filter((s) => s.uri !== existing.uri),
+  }));
+}
+
+/**
+ * Read a sound record by strong reference from the repo that holds it,
+ * which may belong to another user
+ * @param {StrongRef} ref - { uri, cid } of the sound record
+ * @returns {Promise<{ repo: PublicRepo, sound: SoundData }>} The sound and the repo hosting its blob
+ * @throws {Error} If the record is missing, changed or does not match the lexicon
+ */
+async function getSound(
+  ref: StrongRef
+): Promise<{ repo: PublicRepo; sound: SoundData }> {
+  const uri = new AtUri(ref.uri);
+  const repo = await resolveRepo(uri.host);
+  const response = await new Agent(repo.pds).com.atproto.repo.getRecord({
+    repo: repo.did,
+    collection: SOUND_NSID,
+    rkey: uri.rkey,
+    cid: ref.cid,
+  });
+
+  const value = response.data.value;
+  if (!isSoundRecord(value)) {
+    throw new Error(validateRecord(SOUND_NSID, value) ?? 'Invalid sound');
+  }
+  return { repo, sound: toSoundData(ref.uri, ref.cid, value) };
+}
+
+/**
+ * Download a blob from the PDS hosting it. Blobs are public, so no sign-in
+ * is needed.
+ * @param {PublicRepo} repo - Repo holding the blob
+ * @param {string} cid - Blob CID
+ * @returns {Promise<Blob>} The blob's contents with its MIME type
+ * @throws {Error} If the blob is missing or API call fails
+ */
+async function downloadBlob(repo: PublicRepo, cid: string): Promise<Blob> {
+  const response = await new Agent(repo.pds).com.atproto.sync.getBlob({
+    did: repo.did,
+    cid,
+  });
+  // Response bodies are never backed by shared memory
+  return new Blob([response.data as Uint8Array<ArrayBuffer>], {
+    type: response.headers['content-type'] ?? '',
+  });
+}
+
+/**
+ * Publish a Bluesky post from the signed-in account
+ * @param {AppBskyFeedPost.Record} post - Post record, e.g. from buildSessionPost
+ * @returns {Promise<CreateRecordResponse>} Returns { uri, cid, validationStatus }
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function createBlueskyPost(
+  post: AppBskyFeedPost.Record
+): Promise<CreateRecordResponse> {
+  const agent = createAgent();
+  const response = await agent.com.atproto.repo.createRecord({
+    repo: session!.sub,
+    collection: 'app.bsky.feed.post',
+    record: post,
+  });
+
   return {
     uri: response.data.uri,
     cid: response.data.cid,
@@ -220,14 +1238,33 @@ async function createPreset(
   };
 }
 
-/**
- * Retrieve all meditation sessions with pagination support
- * @param {PaginationOptions} options - Query options
- * @returns {Promise<MeditationSessionsResponse>} Returns { meditationSessions, cursor, total }
- * @throws {Error} If API call fails
- */
-async function getMeditationSessions(
-  options: PaginationOptions = {}
+// Helper: Split listed records into lexicon-valid ones and quarantined ones
+function partitionRecords<T>(
+  collection: string,
+  records: ListedRecord[],
+  isValid: (value: unknown) => value is T
+): { valid: ListedRecord<T>[]; invalid: InvalidRecord[] } {
+  const valid: ListedRecord<T>[] = [];
+  const invalid: InvalidRecord[] = [];
+
+  records.forEach(({ uri, cid, value }) => {
+    if (isValid(value)) {
+      valid.push({ uri, cid, value });
+    } else {
+      const error = validateRecord(collection, value) ?? 'Invalid record';
+      console.warn(`Skipping invalid record ${uri}: ${error}`);
+      invalid.push({ uri, cid, collection, error });
+    }
+  });
+
+  return { valid, invalid };
+}
+
+// Helper: List one page of meditation sessions from a repo
+async function listMeditationSessions(
+  agent: Agent,
+  repo: string,
+  options: PaginationOptions
 ): Promise<MeditationSessionsResponse> {
   const { limit = 50, cursor = null, reverse = false } = options;
 
@@ -236,11 +1273,8 @@ async function getMeditationSessions(
     throw new Error('limit must be between 1 and 100');
   }
 
-  ensureSession();
-  const agent = createAgent();
-
   const queryParams = {
-    repo: session!.sub,
+    repo: repo,
     collection: 'place.starting.meditationSession',
     limit: limit,
     reverse: reverse,
@@ -249,31 +1283,42 @@ async function getMeditationSessions(
 
   const response = await agent.com.atproto.repo.listRecords(queryParams);
 
+  // Quarantine records that do not match the lexicon
+  const { valid, invalid } = partitionRecords(
+    MEDITATION_SESSION_NSID,
+    response.data.records,
+    isMeditationSessionRecord
+  );
+
   // Transform response to expose relevant data
   return {
-    meditationSessions: response.data.records.map((record) => ({
-      uri: record.uri,
-      cid: record.cid,
-      createdAt: (record.value as Record<string, unknown>).createdAt as string,
-      duration: (record.value as Record<string, unknown>).duration as number,
-      presetId:
-        ((record.value as Record<string, unknown>).presetId as string) || null,
-      notes:
-        ((record.value as Record<string, unknown>).notes as string) || null,
-    })),
+    meditationSessions: valid.map(({ uri, cid, value }) =>
+      toMeditationSessionData(uri, cid, value)
+    ),
+    invalidRecords: invalid,
     cursor: response.data.cursor || null,
     total: response.data.records.length,
   };
 }
 
 /**
- * Retrieve all meditation presets
+ * Retrieve one page of meditation sessions
  * @param {PaginationOptions} options - Query options
- * @returns {Promise<PresetsResponse>} Returns { presets, cursor, total }
+ * @returns {Promise<MeditationSessionsResponse>} Returns { meditationSessions, cursor, total } where total is the page size
  * @throws {Error} If API call fails
  */
-async function getPresets(
+async function getMeditationSessions(
   options: PaginationOptions = {}
+): Promise<MeditationSessionsResponse> {
+  ensureSession();
+  return listMeditationSessions(createAgent(), session!.sub, options);
+}
+
+// Helper: List one page of presets from a repo
+async function listPresets(
+  agent: Agent,
+  repo: string,
+  options: PaginationOptions
 ): Promise<PresetsResponse> {
   const { limit = 50, cursor = null, reverse = false } = options;
 
@@ -282,11 +1327,8 @@ async function getPresets(
     throw new Error('limit must be between 1 and 100');
   }
 
-  ensureSession();
-  const agent = createAgent();
-
   const queryParams = {
-    repo: session!.sub,
+    repo: repo,
     collection: 'place.starting.preset',
     limit: limit,
     reverse: reverse,
@@ -295,27 +1337,337 @@ async function getPresets(
 
   const response = await agent.com.atproto.repo.listRecords(queryParams);
 
+  // Quarantine records that do not match the lexicon
+  const { valid, invalid } = partitionRecords(
+    PRESET_NSID,
+    response.data.records,
+    isPresetRecord
+  );
+
   // Transform response to expose relevant data
   return {
-    presets: response.data.records.map((record) => ({
-      uri: record.uri,
-      cid: record.cid,
-      name: (record.value as Record<string, unknown>).name as string,
-      duration: (record.value as Record<string, unknown>).duration as number,
-      createdAt: (record.value as Record<string, unknown>).createdAt as string,
-      soundIntervals:
-        ((record.value as Record<string, unknown>)
-          .soundIntervals as SoundInterval[]) || [],
-    })),
+    presets: valid.map(({ uri, cid, value }) => toPresetData(uri, cid, value)),
+    invalidRecords: invalid,
+    cursor: response.data.cursor || null,
+    total: response.data.records.length,
+  };
+}
+
+// Helper: List one page of sound records from a repo
+async function listSounds(
+  agent: Agent,
+  repo: string,
+  options: PaginationOptions
+): Promise<SoundsResponse> {
+  const { limit = 50, cursor = null, reverse = false } = options;
+
+  // Validate pagination parameters
+  if (limit < 1 || limit > 100) {
+    throw new Error('limit must be between 1 and 100');
+  }
+
+  const response = await agent.com.atproto.repo.listRecords({
+    repo: repo,
+    collection: SOUND_NSID,
+    limit: limit,
+    reverse: reverse,
+    ...(cursor && { cursor }),
+  });
+
+  // Quarantine records that do not match the lexicon
+  const { valid, invalid } = partitionRecords(
+    SOUND_NSID,
+    response.data.records,
+    isSoundRecord
+  );
+
+  return {
+    sounds: valid.map(({ uri, cid, value }) => toSoundData(uri, cid, value)),
+    invalidRecords: invalid,
     cursor: response.data.cursor || null,
     total: response.data.records.length,
   };
 }
 
+/**
+ * Retrieve one page of the signed-in user's sounds
+ * @param {PaginationOptions} options - Query options
+ * @returns {Promise<SoundsResponse>} Returns { sounds, cursor, total } where total is the page size
+ * @throws {Error} If API call fails
+ */
+async function getSounds(
+  options: PaginationOptions = {}
+): Promise<SoundsResponse> {
+  ensureSession();
+  return listSounds(createAgent(), session!.sub, options);
+}
+
+/**
+ * Retrieve one page of meditation presets
+ * @param {PaginationOptions} options - Query options
+ * @returns {Promise<PresetsResponse>} Returns { presets, cursor, total } where total is the page size
+ * @throws {Error} If API call fails
+ */
+async function getPresets(
+  options: PaginationOptions = {}
+): Promise<PresetsResponse> {
+  ensureSession();
+  return listPresets(createAgent(), session!.sub, options);
+}
+
+/**
+ * Resolve a handle or DID to the account's repo and the PDS hosting it
+ * @param {string} identifier - Handle (with or without @) or DID
+ * @param {AbortSignal} signal - Cancels the lookup
+ * @returns {Promise<PublicRepo>} Returns { did, handle, pds }; handle is null if it does not verify
+ * @throws {Error} If the identifier does not resolve or the account has no PDS
+ */
+async function resolveRepo(
+  identifier: string,
+  signal?: AbortSignal
+): Promise<PublicRepo> {
+  const input = identifier.trim().replace(/^@/, '');
+  if (!input) {
+    throw new Error('Enter a handle or DID');
+  }
+
+  const identity = await oauthClient.identityResolver.resolve(input, {
+    signal,
+  });
+  const pds = identity.didDoc.service?.find(
+    (service) =>
+      service.id.endsWith('#atproto_pds') &&
+      service.type === 'AtprotoPersonalDataServer' &&
+      typeof service.serviceEndpoint === 'string'
+  )?.serviceEndpoint;
+  if (typeof pds !== 'string') {
+    throw new Error(`No PDS found for ${input}`);
+  }
+
+  return {
+    did: identity.did,
+    handle: identity.handle === 'handle.invalid' ? null : identity.handle,
+    pds,
+  };
+}
+
+/**
+ * Retrieve one page of another account's meditation sessions, read from the
+ * account's PDS without signing in to it
+ * @param {PublicRepo} repo - Repo returned by resolveRepo
+ * @param {PaginationOptions} options - Query options
+ * @returns {Promise<MeditationSessionsResponse>} Returns { meditationSessions, cursor, total } where total is the page size
+ * @throws {Error} If API call fails
+ */
+async function getRepoMeditationSessions(
+  repo: PublicRepo,
+  options: PaginationOptions = {}
+): Promise<MeditationSessionsResponse> {
+  return listMeditationSessions(new Agent(repo.pds), repo.did, options);
+}
+
+/**
+ * Retrieve one page of the accounts a user follows, from the AppView
+ * @param {string} actor - DID or handle whose follows to list
+ * @param {PaginationOptions} options - Query options; reverse is not supported
+ * @returns {Promise<FollowsResponse>} Returns { follows, cursor }
+ * @throws {Error} If user not logged in or API call fails
+ */
+async function getFollows(
+  actor: string,
+  options: PaginationOptions = {}
+): Promise<FollowsResponse> {
+  const { limit = 50, cursor = null } = options;
+
+  // Validate pagination parameters
+  if (limit < 1 || limit > 100) {
+    throw new Error('limit must be between 1 and 100');
+  }
+
+  const agent = createAgent();
+  const response = await agent.app.bsky.graph.getFollows({
+    actor,
+    limit,
+    ...(cursor && { cursor }),
+  });
+
+  return {
+    follows: response.data.follows.map((profile) => ({
+      did: profile.did,
+      handle: profile.handle,
+      displayName: profile.displayName || null,
+      avatar: profile.avatar ?? null,
+    })),
+    cursor: response.data.cursor || null,
+  };
+}
+
+/**
+ * Retrieve one page of another account's presets. Repos are public, so the
+ * records are read from the account's PDS without signing in to it.
+ * @param {PublicRepo} repo - Repo returned by resolveRepo
+ * @param {PaginationOptions} options - Query options
+ * @returns {Promise<PresetsResponse>} Returns { presets, cursor, total } where total is the page size
+ * @throws {Error} If API call fails
+ */
+async function getRepoPresets(
+  repo: PublicRepo,
+  options: PaginationOptions = {}
+): Promise<PresetsResponse> {
+  return listPresets(new Agent(repo.pds), repo.did, options);
+}
+
+// Helper: Follow cursors until every page has been fetched
+async function fetchAllPages<T>(
+  fetchPage: (cursor: string | null) => Promise<{
+    items: T[];
+    invalidRecords: InvalidRecord[];
+    cursor: string | null;
+  }>,
+  options: LoadAllOptions
+): Promise<T[]> {
+  const { onProgress, onInvalidRecords, signal } = options;
+  const items: T[] = [];
+  let cursor: string | null = null;
+
+  do {
+    signal?.throwIfAborted();
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    onProgress?.(items.length);
+    if (page.invalidRecords.length > 0) {
+      onInvalidRecords?.(page.invalidRecords);
+    }
+
+    // Guard against a PDS returning an empty page with a cursor forever
+    cursor =
+      page.items.length + page.invalidRecords.length > 0 ? page.cursor : null;
+  } while (cursor);
+
+  return items;
+}
+
+/**
+ * Retrieve every meditation session by following cursors to the end
+ * @param {LoadAllOptions} options - { onProgress(loaded), onInvalidRecords(records), signal } for progress, quarantine reporting and cancellation
+ * @returns {Promise<MeditationSessionData[]>} All sessions, newest first
+ * @throws {DOMException} AbortError if the signal is aborted
+ * @throws {Error} If API call fails
+ */
+async function getAllMeditationSessions(
+  options: LoadAllOptions = {}
+): Promise<MeditationSessionData[]> {
+  return fetchAllPages(async (cursor) => {
+    const response = await getMeditationSessions({ limit: 100, cursor });
+    return {
+      items: response.meditationSessions,
+      invalidRecords: response.invalidRecords,
+      cursor: response.cursor,
+    };
+  }, options);
+}
+
+/**
+ * Retrieve every meditation preset by following cursors to the end
+ * @param {LoadAllOptions} options - { onProgress(loaded), onInvalidRecords(records), signal } for progress, quarantine reporting and cancellation
+ * @returns {Promise<PresetData[]>} All presets, newest first
+ * @throws {DOMException} AbortError if the signal is aborted
+ * @throws {Error} If API call fails
+ */
+async function getAllPresets(
+  options: LoadAllOptions = {}
+): Promise<PresetData[]> {
+  return fetchAllPages(async (cursor) => {
+    const response = await getPresets({ limit: 100, cursor });
+    return {
+      items: response.presets,
+      invalidRecords: response.invalidRecords,
+      cursor: response.cursor,
+    };
+  }, options);
+}
+
+/**
+ * Retrieve every sound of the signed-in user by following cursors to the end
+ * @param {LoadAllOptions} options - { onProgress(loaded), onInvalidRecords(records), signal } for progress, quarantine reporting and cancellation
+ * @returns {Promise<SoundData[]>} All sounds, newest first
+ * @throws {DOMException} AbortError if the signal is aborted
+ * @throws {Error} If API call fails
+ */
+async function getAllSounds(
+  options: LoadAllOptions = {}
+): Promise<SoundData[]> {
+  return fetchAllPages(async (cursor) => {
+    const response = await getSounds({ limit: 100, cursor });
+    return {
+      items: response.sounds,
+      invalidRecords: response.invalidRecords,
+      cursor: response.cursor,
+    };
+  }, options);
+}
+
+/**
+ * Retrieve every preset in another account's repo
+ * @param {PublicRepo} repo - Repo returned by resolveRepo
+ * @param {LoadAllOptions} options - { onProgress(loaded), onInvalidRecords(records), signal } for progress, quarantine reporting and cancellation
+ * @returns {Promise<PresetData[]>} All presets, newest first
+ * @throws {DOMException} AbortError if the signal is aborted
+ * @throws {Error} If API call fails
+ */
+async function getAllRepoPresets(
+  repo: PublicRepo,
+  options: LoadAllOptions = {}
+): Promise<PresetData[]> {
+  return fetchAllPages(async (cursor) => {
+    const response = await getRepoPresets(repo, { limit: 100, cursor });
+    return {
+      items: response.presets,
+      invalidRecords: response.invalidRecords,
+      cursor: response.cursor,
+    };
+  }, options);
+}
+
 // Export all API functions
 export {
+  RecordConflictError,
+  isTransientError,
   createMeditationSession,
+  prepareMeditationSessionRecord,
+  putMeditationSession,
+  updateMeditationSession,
+  deleteMeditationSession,
   createPreset,
+  copyPreset,
+  preparePresetRecord,
+  updatePreset,
+  deletePreset,
+  validatePreset,
+  createRecordsBatch,
+  findExistingRecords,
+  MAX_BATCH_WRITES,
   getMeditationSessions,
   getPresets,
-};
\ No newline at end of file
+  getAllMeditationSessions,
+  getAllPresets,
+  resolveRepo,
+  getRepoPresets,
+  getAllRepoPresets,
+  getRepoMeditationSessions,
+  getFollows,
+  createBlueskyPost,
+  uploadSound,
+  deleteSound,
+  getSounds,
+  getAllSounds,
+  getSound,
+  downloadBlob,
+};
+export type {
+  PresetAudio,
+  PublicRepo,
+  ProfileSummary,
+  SessionVisibility,
+  SoundKind,
+};
@@ -0,0 +1,81 @@
+/**
+ * Accounts signed in on this device.
+ * The OAuth client keeps each account's tokens itself and can restore any
+ * of them by DID; this list remembers which DIDs exist and how to label
+ * them in the account switcher.
+ */
+
+export interface KnownAccount {
+  did: string;
+  handle: string | null;
+  displayName: string | null;
+}
+
+const ACCOUNTS_STORAGE_KEY = 'knownAccounts';
+
+/**
+ * Returns the remembered accounts, most recently added first
+ */
+export function getKnownAccounts(): KnownAccount[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(ACCOUNTS_STORAGE_KEY) ?? '[]'
+    );
+    return Array.isArray(stored)
+      ? stored.filter(
+          (account): account is KnownAccount => typeof account?.did === 'string'
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveKnownAccounts(accounts: KnownAccount[]): void {
+  localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+}
+
+/**
+ * Adds an account to the list, or updates its labels if already known
+ * @param did - Account DID
+ * @param labels - Handle and display name, if known
+ */
+export function rememberAccount(
+  did: string,
+  labels: Partial<Omit<KnownAccount, 'did'>> = {}
+): void {
+  const accounts = getKnownAccounts();
+  const existing = accounts.find((account) => account.did === did);
+
+  if (existing) {
+    Object.assign(existing, labels);
+  } else {
+    accounts.unshift({
+      did,
+      handle: labels.handle ?? null,
+      displayName: labels.displayName ?? null,
+    });
+  }
+  saveKnownAccounts(accounts);
+}
+
+/**
+ * Removes an account from the list
+ * @param did - Account DID
+ */
+export function forgetAccount(did: string): void {
+  saveKnownAccounts(
+    getKnownAccounts().filter((account) => account.did !== did)
+  );
+}
+
+/**
+ * Returns the label shown for an account in the switcher
+ * @param account - Known account
+ */
+export function getAccountLabel(account: KnownAccount): string {
+  if (account.displayName && account.handle) {
+    return `${account.displayName} (@${account.handle})`;
+  }
+  return account.handle ? `@${account.handle}` : account.did;
+}
@@ -0,0 +1,132 @@
+/**
+ * Installable app shell: the web app manifest and a service worker that
+ * caches the built files, so the app opens without a network connection.
+ * This module is also imported by vite.config.ts, which generates both
+ * files into the build from the functions below.
+ */
+
+import { CLIENT_NAME } from './OAuthConfig';
+
+export const MANIFEST_FILE = 'manifest.webmanifest';
+export const SERVICE_WORKER_FILE = 'service-worker.js';
+const THEME_COLOR = '#0085ff';
+const BACKGROUND_COLOR = '#f5f5f5';
+const CACHE_PREFIX = 'app-shell-';
+
+export interface AppIcon {
+  src: string;
+  sizes: string;
+  type: string;
+}
+
+// Icons in public/icons, relative to the app's base URL. They leave enough
+// margin to be cropped to any shape, so they double as maskable icons.
+export const APP_ICONS: AppIcon[] = [
+  { src: 'icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+  { src: 'icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+  { src: 'icons/icon.svg', sizes: 'any', type: 'image/svg+xml' },
+];
+
+/**
+ * Builds the web app manifest. URLs are relative to the manifest, so the
+ * app can be hosted under any path.
+ */
+export function buildManifest(): Record<string, unknown> {
+  return {
+    name: CLIENT_NAME,
+    short_name: 'Meditation',
+    description:
+      'A meditation timer that saves sessions to your AT Protocol account.',
+    start_url: './',
+    scope: './',
+    display: 'standalone',
+    theme_color: THEME_COLOR,
+    background_color: BACKGROUND_COLOR,
+    icons: APP_ICONS.map((icon) => ({ ...icon, purpose: 'any maskable' })),
+  };
+}
+
+/**
+ * Builds the service worker source. Files are cached when the worker is
+ * installed; a new build has a new cache name, so its worker installs next
+ * to the old one and takes over once no tab uses the old files.
+ * Page loads try the network first so a new build is picked up, and fall
+ * back to the cached index.html offline. Built files have content hashes in
+ * their names, so they are served from the cache. Requests to other origins,
+ * such as the user's PDS, are left alone.
+ * @param cacheVersion - Changes whenever the cached files change
+ * @param urls - Files to cache, relative to the worker
+ */
+export function buildServiceWorker(
+  cacheVersion: string,
+  urls: string[]
+): string {
+  return `const CACHE_NAME = ${JSON.stringify(CACHE_PREFIX + cacheVersion)};
+const PRECACHE_URLS = ${JSON.stringify([...new Set(['./', ...urls])])};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) =>
+                name.startsWith(${JSON.stringify(CACHE_PREFIX)}) &&
+                name !== CACHE_NAME
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches
+          .open(CACHE_NAME)
+          .then((cache) => cache.match('index.html'))
+          .then((response) => response || Response.error())
+      )
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.match(request))
+      .then((response) => response || fetch(request))
+  );
+});
+`;
+}
+
+/**
+ * Registers the service worker of a production build. The dev server
+ * serves files that change on every edit, so they are never cached.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}${SERVICE_WORKER_FILE}`)
+    .catch((error) => {
+      // The app works without it, only not offline
+      console.error('Failed to register service worker:', error);
+    });
+}
@@ -0,0 +1,454 @@
+/**
+ * Sound playback for meditation sessions.
+ * Built-in sounds are synthesized locally with the Web Audio API, so no
+ * audio assets need to be downloaded. Sounds the user uploaded are decoded
+ * once loaded and play through the same master volume, as do guided
+ * recordings. A recording replaces a sound type only while it is bound to
+ * it, so one preset's sounds never play in another's session.
+ */
+
+import { RecurringSound, SoundInterval, StrongRef } from './LexiconTypes';
+import { expandSoundIntervals } from './SoundRules';
+
+/**
+ * A single partial of a synthesized sound
+ * ratio - Frequency multiplier of the base frequency
+ * gain - Relative loudness of the partial
+ * decay - Seconds until the partial has faded out
+ */
+interface Partial {
+  ratio: number;
+  gain: number;
+  decay: number;
+}
+
+interface SoundDefinition {
+  baseFrequency: number;
+  attack: number;
+  partials: Partial[];
+}
+
+// Inharmonic partials give bells and gongs their metallic character
+const SOUND_DEFINITIONS: Record<string, SoundDefinition> = {
+  bell: {
+    baseFrequency: 523.25,
+    attack: 0.005,
+    partials: [
+      { ratio: 1, gain: 1, decay: 4 },
+      { ratio: 2.76, gain: 0.5, decay: 3 },
+      { ratio: 5.4, gain: 0.25, decay: 2 },
+      { ratio: 8.93, gain: 0.12, decay: 1.2 },
+    ],
+  },
+  chime: {
+    baseFrequency: 1046.5,
+    attack: 0.002,
+    partials: [
+      { ratio: 1, gain: 1, decay: 2.5 },
+      { ratio: 3, gain: 0.35, decay: 1.5 },
+      { ratio: 4.2, gain: 0.2, decay: 1 },
+    ],
+  },
+  gong: {
+    baseFrequency: 110,
+    attack: 0.06,
+    partials: [
+      { ratio: 1, gain: 1, decay: 7 },
+      { ratio: 1.48, gain: 0.6, decay: 6 },
+      { ratio: 2.09, gain: 0.45, decay: 5 },
+      { ratio: 2.9, gain: 0.3, decay: 4 },
+      { ratio: 4.1, gain: 0.15, decay: 2.5 },
+    ],
+  },
+};
+
+const DEFAULT_SOUND_TYPE = 'bell';
+const VOLUME_STORAGE_KEY = 'soundVolume';
+const DEFAULT_VOLUME = 0.7;
+// Largest gap between a guided recording and the timer before seeking
+const GUIDANCE_MAX_DRIFT_SECONDS = 1;
+
+/**
+ * Returns the sound types that can be synthesized
+ */
+export function getAvailableSoundTypes(): string[] {
+  return Object.keys(SOUND_DEFINITIONS);
+}
+
+/**
+ * Synthesizes named sounds through a shared master volume
+ */
+export class SoundPlayer {
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private activeSources = new Set<AudioScheduledSourceNode>();
+  // Decoded recordings of uploaded sounds, by sound record CID
+  private recordings = new Map<string, AudioBuffer>();
+  // CID of the recording each sound type plays instead of its built-in sound
+  private bindings = new Map<string, string>();
+  private volume: number;
+
+  constructor() {
+    const storedVolume = parseFloat(
+      localStorage.getItem(VOLUME_STORAGE_KEY) ?? ''
+    );
+    this.volume = isNaN(storedVolume) ? DEFAULT_VOLUME : storedVolume;
+  }
+
+  /**
+   * Returns the current volume between 0 and 1
+   */
+  getVolume(): number {
+    return this.volume;
+  }
+
+  /**
+   * Sets the master volume and remembers it for future sessions
+   * @param volume - Volume between 0 and 1
+   */
+  setVolume(volume: number): void {
+    this.volume = Math.min(1, Math.max(0, volume));
+    localStorage.setItem(VOLUME_STORAGE_KEY, this.volume.toString());
+
+    if (this.context && this.masterGain) {
+      this.masterGain.gain.setValueAtTime(
+        this.volume,
+        this.context.currentTime
+      );
+    }
+  }
+
+  /**
+   * Creates the audio context. Call from a click handler before loading
+   * sounds asynchronously, since browsers only allow audio to start after a
+   * user gesture.
+   */
+  unlock(): void {
+    this.ensureContext();
+  }
+
+  /**
+   * Decodes an uploaded recording, so it can be bound to sound types
+   * @param ref - { uri, cid } of the sound record
+   * @param recording - Audio file
+   * @throws {Error} If the browser cannot decode the recording
+   */
+  async loadSound(ref: StrongRef, recording: Blob): Promise<void> {
+    const context = this.ensureContext();
+    const buffer = await context.decodeAudioData(await recording.arrayBuffer());
+    this.recordings.set(ref.cid, buffer);
+  }
+
+  /**
+   * Returns true if the recording of a sound record is loaded
+   * @param ref - { uri, cid } of the sound record
+   */
+  hasSound(ref: StrongRef): boolean {
+    return this.recordings.has(ref.cid);
+  }
+
+  /**
+   * Plays a loaded recording for a sound type until the bindings are
+   * cleared
+   * @param soundType - Sound type
+   * @param ref - Sound record whose recording to play, or null for the
+   * built-in sound
+   */
+  bindSound(soundType: string, ref: StrongRef | null): void {
+    if (ref && this.recordings.has(ref.cid)) {
+      this.bindings.set(soundType, ref.cid);
+    } else {
+      this.bindings.delete(soundType);
+    }
+  }
+
+  /**
+   * Makes every sound type play its built-in sound again, e.g. before the
+   * session of another preset
+   */
+  clearBindings(): void {
+    this.bindings.clear();
+  }
+
+  /**
+   * Plays a media element through the master volume
+   * @param element - Audio element, not yet connected to any audio context
+   */
+  connectMedia(element: HTMLMediaElement): void {
+    const context = this.ensureContext();
+    context.createMediaElementSource(element).connect(this.masterGain!);
+  }
+
+  /**
+   * Plays a sound immediately. Sound types bound to a recording play the
+   * recording; other unknown sound types fall back to a bell.
+   * @param soundType - Name of the sound (e.g. 'bell', 'chime', 'gong')
+   */
+  play(soundType: string): void {
+    const context = this.ensureContext();
+    const cid = this.bindings.get(soundType);
+    const recording = cid ? this.recordings.get(cid) : undefined;
+    if (recording) {
+      this.playRecording(context, recording);
+      return;
+    }
+
+    const definition =
+      SOUND_DEFINITIONS[soundType.toLowerCase()] ??
+      SOUND_DEFINITIONS[DEFAULT_SOUND_TYPE];
+    const now = context.currentTime;
+
+    definition.partials.forEach((partial) => {
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = definition.baseFrequency * partial.ratio;
+
+      // Quick attack followed by an exponential fade
+      envelope.gain.setValueAtTime(0.0001, now);
+      envelope.gain.exponentialRampToValueAtTime(
+        partial.gain * 0.3,
+        now + definition.attack
+      );
+      envelope.gain.exponentialRampToValueAtTime(
+        0.0001,
+        now + definition.attack + partial.decay
+      );
+
+      oscillator.connect(envelope);
+      envelope.connect(this.masterGain!);
+
+      oscillator.start(now);
+      oscillator.stop(now + definition.attack + partial.decay);
+      this.activeSources.add(oscillator);
+      oscillator.addEventListener('ended', () => {
+        this.activeSources.delete(oscillator);
+        envelope.disconnect();
+      });
+    });
+  }
+
+  private playRecording(context: AudioContext, recording: AudioBuffer): void {
+    const source = context.createBufferSource();
+    source.buffer = recording;
+    source.connect(this.masterGain!);
+    source.start();
+    this.activeSources.add(source);
+    source.addEventListener('ended', () => {
+      this.activeSources.delete(source);
+      source.disconnect();
+    });
+  }
+
+  /**
+   * Silences every sound that is currently ringing
+   */
+  stopAll(): void {
+    this.activeSources.forEach((source) => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.activeSources.clear();
+  }
+
+  /**
+   * Lazily creates the audio context. Browsers only allow audio after a
+   * user gesture, so this should first be called from a click handler.
+   */
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.masterGain = this.context.createGain();
+      this.masterGain.gain.value = this.volume;
+      this.masterGain.connect(this.context.destination);
+    }
+
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+
+    return this.context;
+  }
+}
+
+/**
+ * Plays a preset's sound intervals in step with a running timer.
+ * The timer reports elapsed seconds through tick(), so the schedule follows
+ * whatever the countdown actually does rather than keeping its own clock.
+ */
+export class SoundSchedule {
+  private pending: SoundInterval[];
+  private intervals: SoundInterval[];
+  private elapsedSeconds = -1;
+  private finished = false;
+  private playStartBell: boolean;
+  private playEndBell: boolean;
+
+  /**
+   * @param player - Player used to synthesize the sounds
+   * @param durationInSeconds - Total length of the session
+   * @param soundIntervals - Sounds to play at specific seconds
+   * @param recurringSounds - Sounds to play repeatedly; rules without a count
+   * keep repeating when the session is extended
+   */
+  constructor(
+    private player: SoundPlayer,
+    private durationInSeconds: number,
+    soundIntervals: SoundInterval[] = [],
+    private recurringSounds: RecurringSound[] = []
+  ) {
+    this.intervals = soundIntervals;
+    this.pending = this.listSounds();
+
+    // Skip the default bells when the preset already rings at those moments
+    this.playStartBell = !this.pending.some((interval) => interval.time === 0);
+    this.playEndBell = !this.pending.some(
+      (interval) => interval.time === durationInSeconds
+    );
+  }
+
+  /**
+   * Updates the session length, e.g. after the timer was extended.
+   * The end bell moves to the new end unless a sound is scheduled there.
+   * @param durationInSeconds - New total length of the session
+   */
+  setDuration(durationInSeconds: number): void {
+    if (durationInSeconds === this.durationInSeconds) return;
+
+    this.durationInSeconds = durationInSeconds;
+    this.pending = this.listSounds().filter(
+      (interval) => interval.time > this.elapsedSeconds
+    );
+    this.playEndBell = !this.pending.some(
+      (interval) => interval.time === durationInSeconds
+    );
+  }
+
+  /**
+   * Plays the start bell and any sounds scheduled at 0 seconds
+   */
+  start(): void {
+    if (this.playStartBell) {
+      this.player.play(DEFAULT_SOUND_TYPE);
+    }
+    this.tick(0);
+  }
+
+  /**
+   * Plays every sound whose time has been reached
+   * @param elapsedSeconds - Seconds elapsed since the session started
+   */
+  tick(elapsedSeconds: number): void {
+    if (this.finished) return;
+
+    this.elapsedSeconds = Math.max(this.elapsedSeconds, elapsedSeconds);
+    while (this.pending.length > 0 && this.pending[0].time <= elapsedSeconds) {
+      const interval = this.pending.shift()!;
+      this.player.play(interval.soundType);
+    }
+  }
+
+  // Every sound within the current duration, in time order
+  private listSounds(): SoundInterval[] {
+    return expandSoundIntervals(
+      this.durationInSeconds,
+      this.intervals,
+      this.recurringSounds
+    ).filter((interval) => interval.time <= this.durationInSeconds);
+  }
+
+  /**
+   * Plays any remaining sounds and the end bell
+   */
+  complete(): void {
+    if (this.finished) return;
+
+    this.tick(this.durationInSeconds);
+    if (this.playEndBell) {
+      this.player.play(DEFAULT_SOUND_TYPE);
+    }
+    this.finished = true;
+  }
+
+  /**
+   * Drops all pending sounds and silences anything still ringing.
+   * Has no effect once the session has completed, so the end bell can ring out.
+   */
+  cancel(): void {
+    if (this.finished) return;
+
+    this.finished = true;
+    this.pending = [];
+    this.player.stopAll();
+  }
+}
+
+/**
+ * Plays a guided recording in step with a running timer. Like SoundSchedule
+ * it follows the elapsed time the timer reports, so pausing, resuming and
+ * throttled background tabs do not put the recording out of step.
+ */
+export class GuidedPlayback {
+  private element: HTMLAudioElement;
+  private url: string;
+  private stopped = false;
+
+  /**
+   * @param player - Player whose volume the recording follows
+   * @param recording - Audio file of the guided meditation
+   */
+  constructor(player: SoundPlayer, recording: Blob) {
+    this.url = URL.createObjectURL(recording);
+    this.element = new Audio(this.url);
+    this.element.preload = 'auto';
+    player.connectMedia(this.element);
+  }
+
+  /**
+   * Plays the recording from the elapsed time, seeking if it drifted
+   * @param elapsedSeconds - Seconds elapsed since the session started
+   */
+  tick(elapsedSeconds: number): void {
+    if (this.stopped) return;
+
+    // Recordings shorter than the session simply end
+    const { element } = this;
+    if (!isNaN(element.duration) && elapsedSeconds >= element.duration) return;
+
+    if (
+      Math.abs(element.currentTime - elapsedSeconds) >
+      GUIDANCE_MAX_DRIFT_SECONDS
+    ) {
+      element.currentTime = elapsedSeconds;
+    }
+    if (element.paused) {
+      element.play().catch((error) => {
+        console.warn('Guided audio could not play:', error);
+      });
+    }
+  }
+
+  /**
+   * Pauses the recording, e.g. while the timer is paused
+   */
+  pause(): void {
+    this.element.pause();
+  }
+
+  /**
+   * Stops the recording for good and releases it
+   */
+  stop(): void {
+    if (this.stopped) return;
+
+    this.stopped = true;
+    this.element.pause();
+    this.element.removeAttribute('src');
+    this.element.load();
+    URL.revokeObjectURL(this.url);
+  }
+}
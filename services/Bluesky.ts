@@ -0,0 +1,121 @@
+/**
+ * Sharing a finished session as a Bluesky post.
+ * The post text is a summary the user can edit before posting. Links and
+ * hashtags in it are marked up as facets, and the post embeds a reference
+ * to the meditation session record. Nothing is posted unless the user
+ * chooses to; whether the composer opens by itself after a session is
+ * remembered per account.
+ */
+
+import { AppBskyFeedPost, AppBskyRichtextFacet, RichText } from '@atproto/api';
+import { StrongRef } from './LexiconTypes';
+
+export interface SessionSummary {
+  // Seconds meditated
+  duration: number;
+  presetName: string | null;
+  // Consecutive days with a session, including today
+  streak: number;
+}
+
+// Longest post Bluesky accepts, in graphemes
+export const POST_MAX_GRAPHEMES = 300;
+
+const POST_HASHTAG = '#meditation';
+const POST_DEFAULT_STORAGE_PREFIX = 'postToBluesky:';
+
+/**
+ * Returns whether the post composer opens after each session for an account
+ * @param did - Account DID
+ */
+export function getPostDefault(did: string): boolean {
+  return localStorage.getItem(POST_DEFAULT_STORAGE_PREFIX + did) === 'true';
+}
+
+/**
+ * Remembers whether the post composer opens after each session
+ * @param did - Account DID
+ * @param enabled - true to open the composer
+ */
+export function setPostDefault(did: string, enabled: boolean): void {
+  localStorage.setItem(POST_DEFAULT_STORAGE_PREFIX + did, enabled.toString());
+}
+
+/**
+ * Writes the suggested text of a post about a session
+ * @param summary - What to mention in the post
+ */
+export function composeSessionSummary(summary: SessionSummary): string {
+  const minutes = Math.max(1, Math.round(summary.duration / 60));
+  const lines = [
+    summary.presetName
+      ? `I just meditated for ${minutes} minutes with my "${summary.presetName}" preset.`
+      : `I just meditated for ${minutes} minutes.`,
+  ];
+  if (summary.streak > 1) {
+    lines.push(`Current streak: ${summary.streak} days.`);
+  }
+  lines.push(POST_HASHTAG);
+  return lines.join('\n');
+}
+
+/**
+ * Parses post text into rich text with link and hashtag facets. Mentions
+ * are left as plain text, since marking them up needs the mentioned
+ * account's DID.
+ * @param text - Post text
+ */
+export function parsePostText(text: string): RichText {
+  const richText = new RichText({ text: text.trim() });
+  richText.detectFacetsWithoutResolution();
+  richText.facets = richText.facets?.filter(
+    (facet) =>
+      !facet.features.some((feature) => AppBskyRichtextFacet.isMention(feature))
+  );
+  return richText;
+}
+
+/**
+ * Builds a post record that embeds a reference to a session record
+ * @param text - Post text
+ * @param session - { uri, cid } of the meditation session record
+ * @throws {Error} If the text is empty, too long, or the post is invalid
+ */
+export function buildSessionPost(
+  text: string,
+  session: StrongRef
+): AppBskyFeedPost.Record {
+  const richText = parsePostText(text);
+  if (richText.graphemeLength === 0) {
+    throw new Error('Write something to post');
+  }
+  if (richText.graphemeLength > POST_MAX_GRAPHEMES) {
+    throw new Error(`Posts are limited to ${POST_MAX_GRAPHEMES} characters`);
+  }
+
+  const post: AppBskyFeedPost.Record = {
+    $type: 'app.bsky.feed.post',
+    text: richText.text,
+    ...(richText.facets?.length && { facets: richText.facets }),
+    embed: {
+      $type: 'app.bsky.embed.record',
+      record: { uri: session.uri, cid: session.cid },
+    },
+    createdAt: new Date().toISOString(),
+  };
+
+  const result = AppBskyFeedPost.validateRecord(post);
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return post;
+}
+
+/**
+ * Returns the bsky.app address of a post
+ * @param uri - Post record URI
+ */
+export function getPostUrl(uri: string): string {
+  const [, , did, , rkey] = uri.split('/');
+  return `https://bsky.app/profile/${did}/post/${rkey}`;
+}
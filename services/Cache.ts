@@ -0,0 +1,179 @@
+/**
+ * Persistent cache of the Store in IndexedDB, keyed by account DID.
+ * Lets the app render immediately on startup and then reconcile with the
+ * PDS in the background. Once watched, the cache follows every change to
+ * the active account's Store, shortly after it happens.
+ */
+
+import { CACHE_STORE, withStore } from './Database';
+import Store, { MeditationSessionData, StoreState } from './Store';
+import { PresetData, SoundData } from './LexiconTypes';
+import { jsonToLex, lexToJson } from '@atproto/lexicon';
+
+// Bump when the shape of cached records changes, so entries written by an
+// older version are refetched instead of read with missing fields
+const CACHE_VERSION = 4;
+// Changes made within this time are written together
+const SAVE_DELAY_MS = 1000;
+
+interface CacheEntry {
+  did: string;
+  version?: number;
+  meditationSessions: readonly MeditationSessionData[];
+  presets: readonly PresetData[];
+  // Sounds in JSON form, since blob references do not survive being
+  // stored in IndexedDB
+  sounds: unknown;
+  savedAt: string;
+}
+
+export interface ReconcileResult<T> {
+  records: T[];
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+/**
+ * Loads the cached Store for an account into the Store
+ * @param did - Account DID
+ * @returns true if a cache entry was found
+ */
+export async function loadStoreFromCache(did: string): Promise<boolean> {
+  const entry = await withStore<CacheEntry | undefined>(
+    CACHE_STORE,
+    'readonly',
+    (store) => store.get(did)
+  );
+  // Ignore the entry if another account became active while reading
+  if (!entry || Store.getAccount() !== did) return false;
+  if (entry.version !== CACHE_VERSION) return false;
+
+  Store.setState({
+    meditationSessions: entry.meditationSessions,
+    presets: entry.presets,
+    sounds: jsonToLex(entry.sounds) as SoundData[],
+  });
+  return true;
+}
+
+/**
+ * Saves the Store contents for an account.
+ * Sessions still pending sync are left out; the outbox keeps those.
+ * @param did - Account DID
+ * @param state - State to save, the current one by default
+ */
+export async function saveStoreToCache(
+  did: string,
+  state: StoreState = Store.getState()
+): Promise<void> {
+  const { meditationSessions, presets, sounds } = state;
+  const entry: CacheEntry = {
+    did,
+    version: CACHE_VERSION,
+    meditationSessions: meditationSessions.filter((s) => !s.pendingSync),
+    presets,
+    sounds: lexToJson(sounds as SoundData[]),
+    savedAt: new Date().toISOString(),
+  };
+  await withStore(CACHE_STORE, 'readwrite', (store) => store.put(entry));
+}
+
+/**
+ * Keeps the cache in step with the Store: every change to the active
+ * account's data is saved after a short delay. A change still waiting when
+ * the user switches accounts or leaves the page is saved right away; one
+ * waiting when the account is signed out is dropped.
+ * @returns Function that stops watching
+ */
+export function watchStoreForCache(): () => void {
+  let account = Store.getAccount();
+  let pending: {
+    did: string;
+    state: StoreState;
+    timeoutId: ReturnType<typeof setTimeout>;
+  } | null = null;
+
+  const save = () => {
+    if (!pending) return;
+    const { did, state, timeoutId } = pending;
+    clearTimeout(timeoutId);
+    pending = null;
+    saveStoreToCache(did, state).catch((error) => {
+      console.error('Failed to write cache:', error);
+    });
+  };
+
+  const unsubscribe = Store.subscribe(
+    (state) => state,
+    (state) => {
+      const did = Store.getAccount();
+      if (did !== account) {
+        // The state now belongs to another account, or to none after a
+        // sign-out whose cache must stay deleted
+        if (did) {
+          save();
+        } else if (pending) {
+          clearTimeout(pending.timeoutId);
+          pending = null;
+        }
+        account = did;
+        return;
+      }
+      if (!did) return;
+
+      if (pending) clearTimeout(pending.timeoutId);
+      pending = { did, state, timeoutId: setTimeout(save, SAVE_DELAY_MS) };
+    }
+  );
+  window.addEventListener('pagehide', save);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', save);
+    save();
+  };
+}
+
+/**
+ * Removes the cached Store for an account
+ * @param did - Account DID
+ */
+export async function clearCache(did: string): Promise<void> {
+  await withStore(CACHE_STORE, 'readwrite', (store) => store.delete(did));
+}
+
+/**
+ * Reconciles locally held records with the list fetched from the PDS.
+ * Records whose URI and CID are unchanged keep their local object, so only
+ * additions, changes and deletions produce new data.
+ * @param local - Records currently in the Store
+ * @param remote - Complete list of records from the PDS, in display order
+ * @returns The reconciled records and counts of what changed
+ */
+export function reconcileRecords<T extends { uri: string; cid: string }>(
+  local: readonly T[],
+  remote: T[]
+): ReconcileResult<T> {
+  const localByUri = new Map(local.map((record) => [record.uri, record]));
+  const remoteUris = new Set(remote.map((record) => record.uri));
+  let added = 0;
+  let changed = 0;
+
+  const records = remote.map((record) => {
+    const existing = localByUri.get(record.uri);
+    if (!existing) {
+      added++;
+      return record;
+    }
+    if (existing.cid !== record.cid) {
+      changed++;
+      return record;
+    }
+    return existing;
+  });
+
+  const removed = local.filter((record) => !remoteUris.has(record.uri)).length;
+
+  return { records, added, changed, removed };
+}
@@ -0,0 +1,78 @@
+/**
+ * IndexedDB access shared by services that persist data in the browser
+ */
+
+const DATABASE_NAME = 'verbose-fishstick';
+const DATABASE_VERSION = 4;
+
+export const OUTBOX_STORE = 'outbox';
+export const CACHE_STORE = 'cache';
+export const FEED_STORE = 'feed';
+export const BLOB_STORE = 'blobs';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the app database, creating or upgrading object stores as needed
+ * @returns Promise resolving to the shared IDBDatabase connection
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'rkey' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'did' });
+        }
+        if (!db.objectStoreNames.contains(FEED_STORE)) {
+          db.createObjectStore(FEED_STORE, { keyPath: 'did' });
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE, { keyPath: 'cid' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+/**
+ * Wraps an IDBRequest in a promise
+ * @param request - Request returned by an object store operation
+ * @returns Promise resolving to the request's result
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs an operation against one object store in its own transaction
+ * @param storeName - Object store to use
+ * @param mode - Transaction mode
+ * @param operation - Receives the object store and returns a request
+ * @returns Promise resolving to the request's result
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(operation(transaction.objectStore(storeName)));
+}
@@ -0,0 +1,173 @@
+/**
+ * Export of the user's sessions and presets.
+ * Every record is read from the PDS through the list functions in API.ts,
+ * so the export is complete even when the local Store is not. Files are
+ * built and downloaded in the browser without any server involvement.
+ */
+
+import { getAllMeditationSessions, getAllPresets } from './API';
+import {
+  MeditationSessionData,
+  MeditationSessionRecord,
+  PresetData,
+  PresetRecord,
+  toMeditationSessionRecord,
+  toPresetRecord,
+} from './LexiconTypes';
+
+export const EXPORT_FORMAT = 'place.starting.export';
+export const EXPORT_VERSION = 1;
+
+export interface ExportedRecord<T> {
+  uri: string;
+  cid: string;
+  value: T;
+}
+
+/**
+ * Versioned JSON archive. Record values are stored exactly as the lexicons
+ * define them, so an archive can be imported again without loss.
+ */
+export interface ExportArchive {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  did: string;
+  meditationSessions: ExportedRecord<MeditationSessionRecord>[];
+  presets: ExportedRecord<PresetRecord>[];
+}
+
+export interface ExportData {
+  meditationSessions: MeditationSessionData[];
+  presets: PresetData[];
+  // Records skipped because they do not match the lexicons
+  skipped: number;
+}
+
+interface ExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+}
+
+const CSV_COLUMNS = [
+  'date',
+  'duration_seconds',
+  'duration_minutes',
+  'preset',
+  'notes',
+];
+
+/**
+ * Fetches every session and preset record from the PDS
+ * @param options - signal for cancellation, onProgress for status messages
+ * @returns Sessions and presets, newest first
+ * @throws {DOMException} AbortError if the signal is aborted
+ * @throws {Error} If user not logged in or API call fails
+ */
+export async function fetchExportData(
+  options: ExportOptions = {}
+): Promise<ExportData> {
+  const { signal, onProgress } = options;
+  let skipped = 0;
+  const onInvalidRecords = (records: unknown[]) => {
+    skipped += records.length;
+  };
+
+  const meditationSessions = await getAllMeditationSessions({
+    signal,
+    onInvalidRecords,
+    onProgress: (loaded) => onProgress?.(`Reading sessions... ${loaded}`),
+  });
+  const presets = await getAllPresets({
+    signal,
+    onInvalidRecords,
+    onProgress: (loaded) => onProgress?.(`Reading presets... ${loaded}`),
+  });
+
+  return { meditationSessions, presets, skipped };
+}
+
+/**
+ * Builds the JSON archive for an account
+ * @param did - DID of the account the records belong to
+ * @param data - Sessions and presets to include
+ */
+export function buildExportArchive(
+  did: string,
+  data: ExportData
+): ExportArchive {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    did,
+    meditationSessions: data.meditationSessions.map((session) => ({
+      uri: session.uri,
+      cid: session.cid,
+      value: toMeditationSessionRecord(session),
+    })),
+    presets: data.presets.map((preset) => ({
+      uri: preset.uri,
+      cid: preset.cid,
+      value: toPresetRecord(preset),
+    })),
+  };
+}
+
+// Helper: Quote a CSV field when needed. Values that a spreadsheet would
+// run as a formula are prefixed with an apostrophe.
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Builds a CSV with one row per session: date, duration, preset name and
+ * notes. Sessions whose preset was deleted have an empty preset name.
+ * @param data - Sessions, and the presets used to resolve preset names
+ */
+export function buildSessionsCsv(data: ExportData): string {
+  const presetNames = new Map(
+    data.presets.map((preset) => [preset.uri, preset.name])
+  );
+
+  const rows = data.meditationSessions.map((session) => {
+    const presetUri = session.preset?.uri ?? session.presetId;
+    return [
+      session.createdAt,
+      session.duration.toString(),
+      (Math.round((session.duration / 60) * 10) / 10).toString(),
+      (presetUri && presetNames.get(presetUri)) || '',
+      session.notes ?? '',
+    ];
+  });
+
+  return (
+    [CSV_COLUMNS, ...rows]
+      .map((row) => row.map(csvField).join(','))
+      .join('\r\n') + '\r\n'
+  );
+}
+
+/**
+ * Offers content to the user as a file download
+ * @param filename - Suggested file name
+ * @param content - File contents
+ * @param mimeType - MIME type of the file
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,218 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { FriendsFeed } from './Feed';
+
+// Stand-in PDS and AppView served over HTTP on localhost, so the feed goes
+// through the real API code: the agents, listRecords paging, lexicon
+// validation and the mapping to the app's model. Only DID resolution is
+// replaced, pointing each account at this server.
+const network = vi.hoisted(() => ({
+  url: '',
+  follows: [] as string[],
+  // Records in each repo, newest first, as listRecords returns them
+  repos: new Map<string, { rkey: string; value: unknown }[]>(),
+  // Accounts whose PDS refuses connections
+  offline: new Set<string>(),
+  // Every listRecords request, as [repo, cursor, limit]
+  reads: [] as [string, string | null, number][],
+}));
+
+vi.mock('../app', () => ({
+  session: {
+    did: 'did:plc:user',
+    sub: 'did:plc:user',
+    fetchHandler: (path: string, init: RequestInit) =>
+      fetch(new URL(path, network.url), init),
+  },
+  oauthClient: {
+    identityResolver: {
+      resolve: async (did: string) => ({
+        did,
+        handle: `${did.slice(8)}.test`,
+        didDoc: {
+          id: did,
+          service: [
+            {
+              id: '#atproto_pds',
+              type: 'AtprotoPersonalDataServer',
+              serviceEndpoint: network.offline.has(did)
+                ? 'http://127.0.0.1:1'
+                : network.url,
+            },
+          ],
+        },
+      }),
+    },
+  },
+}));
+
+vi.mock('./Database', () => ({
+  FEED_STORE: 'feed',
+  withStore: async () => undefined,
+}));
+
+const USER = 'did:plc:user';
+const CID = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+const COLLECTION = 'place.starting.meditationSession';
+const START = Date.UTC(2026, 0, 1);
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url!, network.url);
+  const params = url.searchParams;
+  const limit = parseInt(params.get('limit') ?? '50');
+  const cursor = params.get('cursor');
+  const start = cursor ? parseInt(cursor) : 0;
+
+  if (url.pathname === '/xrpc/app.bsky.graph.getFollows') {
+    const follows = network.follows.slice(start, start + limit);
+    const next = start + limit;
+    sendJson(res, 200, {
+      subject: { did: USER, handle: 'user.test' },
+      follows: follows.map((did) => ({ did, handle: `${did.slice(8)}.test` })),
+      ...(next < network.follows.length && { cursor: next.toString() }),
+    });
+    return;
+  }
+
+  if (url.pathname === '/xrpc/com.atproto.repo.listRecords') {
+    const repo = params.get('repo')!;
+    network.reads.push([repo, cursor, limit]);
+    if (params.get('collection') !== COLLECTION) {
+      sendJson(res, 200, { records: [] });
+      return;
+    }
+    const records = network.repos.get(repo) ?? [];
+    const next = start + limit;
+    sendJson(res, 200, {
+      records: records.slice(start, next).map(({ rkey, value }) => ({
+        uri: `at://${repo}/${COLLECTION}/${rkey}`,
+        cid: CID,
+        value,
+      })),
+      ...(next < records.length && { cursor: next.toString() }),
+    });
+    return;
+  }
+
+  sendJson(res, 501, {
+    error: 'MethodNotImplemented',
+    message: `${url.pathname} is not served`,
+  });
+}
+
+// Adds a followed account with sessions created `minutes` after START
+function follow(
+  did: string,
+  minutes: number[],
+  fields: Record<string, unknown> = {}
+): void {
+  network.follows.push(did);
+  network.repos.set(
+    did,
+    [...minutes]
+      .sort((a, b) => b - a)
+      .map((minute) => ({
+        rkey: `rkey${minute}`,
+        value: {
+          $type: COLLECTION,
+          createdAt: new Date(START + minute * 60_000).toISOString(),
+          duration: 600,
+          ...fields,
+        },
+      }))
+  );
+}
+
+describe('FriendsFeed against a local PDS', () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    network.url = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    network.follows = [];
+    network.repos.clear();
+    network.offline.clear();
+    network.reads = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('merges records from every repo newest first', async () => {
+    follow('did:plc:alice', [1, 4, 7]);
+    follow('did:plc:bob', [2, 5, 8]);
+    follow('did:plc:carol', [3, 6, 9]);
+
+    const items = await new FriendsFeed(USER).loadPage();
+
+    expect(items.map((item) => item.session.uri)).toEqual(
+      [9, 8, 7, 6, 5, 4, 3, 2, 1].map((minute) => {
+        const did = ['did:plc:carol', 'did:plc:alice', 'did:plc:bob'][
+          minute % 3
+        ];
+        return `at://${did}/${COLLECTION}/rkey${minute}`;
+      })
+    );
+    expect(items[0]).toMatchObject({
+      author: { did: 'did:plc:carol', handle: 'carol.test' },
+      session: { cid: CID, duration: 600, visibility: null },
+    });
+    expect(network.reads.filter(([repo]) => repo === 'did:plc:alice')).toEqual([
+      ['did:plc:alice', null, 1],
+      ['did:plc:alice', '1', 10],
+    ]);
+  });
+
+  it('leaves out private records and records that fail validation', async () => {
+    follow('did:plc:alice', [1], { visibility: 'private' });
+    follow('did:plc:bob', [2], { duration: 'ten minutes' });
+    follow('did:plc:carol', [3], { visibility: 'public', notes: 'Calm' });
+
+    const items = await new FriendsFeed(USER).loadPage();
+
+    expect(items.map((item) => item.session.uri)).toEqual([
+      `at://did:plc:carol/${COLLECTION}/rkey3`,
+    ]);
+    expect(items[0].session.notes).toBe('Calm');
+  });
+
+  it('shows everyone else when a PDS refuses connections', async () => {
+    follow('did:plc:alice', [1]);
+    follow('did:plc:bob', [2]);
+    network.offline.add('did:plc:bob');
+
+    const feed = new FriendsFeed(USER);
+    const items = await feed.loadPage();
+
+    expect(items.map((item) => item.author.did)).toEqual(['did:plc:alice']);
+    expect(feed.hasMore()).toBe(false);
+  });
+});
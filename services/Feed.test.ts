@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MeditationSessionData } from './LexiconTypes';
+import { FEED_PAGE_SIZE, FriendsFeed } from './Feed';
+
+// Stand-in for the network: the signed-in user's follows and the session
+// records in each followed account's repo, newest first, paged the way
+// listRecords pages them
+const pds = vi.hoisted(() => ({
+  follows: [] as string[],
+  repos: new Map<string, MeditationSessionData[]>(),
+  unreachable: new Set<string>(),
+  // Every listRecords call, as [did, cursor, limit]
+  reads: [] as [string, string | null, number][],
+  cache: new Map<string, unknown>(),
+}));
+
+vi.mock('./API', () => ({
+  getFollows: async (
+    _actor: string,
+    { limit = 50, cursor = null }: { limit?: number; cursor?: string | null }
+  ) => {
+    const start = cursor ? parseInt(cursor) : 0;
+    const follows = pds.follows.slice(start, start + limit).map((did) => ({
+      did,
+      handle: `${did.slice(8)}.test`,
+      displayName: null,
+      avatar: null,
+    }));
+    const next = start + limit;
+    return {
+      follows,
+      cursor: next < pds.follows.length ? next.toString() : null,
+    };
+  },
+  resolveRepo: async (did: string) => {
+    if (pds.unreachable.has(did)) throw new Error('PDS unreachable');
+    return { did, handle: null, pds: 'https://pds.test' };
+  },
+  getRepoMeditationSessions: async (
+    repo: { did: string },
+    { limit = 50, cursor = null }: { limit?: number; cursor?: string | null }
+  ) => {
+    pds.reads.push([repo.did, cursor, limit]);
+    const records = pds.repos.get(repo.did) ?? [];
+    const start = cursor ? parseInt(cursor) : 0;
+    const meditationSessions = records.slice(start, start + limit);
+    const next = start + limit;
+    return {
+      meditationSessions,
+      invalidRecords: [],
+      cursor: next < records.length ? next.toString() : null,
+      total: meditationSessions.length,
+    };
+  },
+}));
+
+// In-memory IndexedDB store for the feed cache
+vi.mock('./Database', () => ({
+  FEED_STORE: 'feed',
+  withStore: async (
+    _storeName: string,
+    _mode: string,
+    operation: (store: unknown) => unknown
+  ) =>
+    operation({
+      get: (key: string) => structuredClone(pds.cache.get(key)),
+      put: (value: { did: string }) => pds.cache.set(value.did, value),
+      delete: (key: string) => pds.cache.delete(key),
+    }),
+}));
+
+const USER = 'did:plc:user';
+const START = Date.UTC(2026, 0, 1);
+
+// Session created `minutes` after START
+function session(
+  did: string,
+  minutes: number,
+  visibility: string | null = null
+): MeditationSessionData {
+  return {
+    uri: `at://${did}/place.starting.meditationSession/${minutes}`,
+    cid: `cid-${did}-${minutes}`,
+    createdAt: new Date(START + minutes * 60_000).toISOString(),
+    duration: 600,
+    presetId: null,
+    preset: null,
+    notes: null,
+    visibility,
+  };
+}
+
+// Adds a followed account whose sessions were created at the given minutes
+function follow(did: string, minutes: number[], visibility?: string): void {
+  pds.follows.push(did);
+  pds.repos.set(
+    did,
+    minutes
+      .sort((a, b) => b - a)
+      .map((minute) => session(did, minute, visibility ?? null))
+  );
+}
+
+function readsOf(did: string): (string | null)[] {
+  return pds.reads
+    .filter(([readDid]) => readDid === did)
+    .map(([, cursor]) => cursor);
+}
+
+describe('FriendsFeed', () => {
+  beforeEach(() => {
+    pds.follows = [];
+    pds.repos.clear();
+    pds.unreachable.clear();
+    pds.reads = [];
+    pds.cache.clear();
+    vi.useFakeTimers({ now: START + 24 * 60 * 60_000, toFake: ['Date'] });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('merges sessions from every account newest first, page by page', async () => {
+    follow('did:plc:alice', [1, 4, 7, 10, 13, 16, 19, 22, 25, 28, 31, 34]);
+    follow('did:plc:bob', [2, 5, 8, 11, 14, 17, 20, 23, 26, 29]);
+    follow('did:plc:carol', [3, 6, 9, 12, 15, 18, 21, 24]);
+
+    const feed = new FriendsFeed(USER);
+    const first = await feed.loadPage();
+    const second = await feed.loadPage();
+    const times = [...first, ...second].map((item) => item.session.createdAt);
+
+    expect(first).toHaveLength(FEED_PAGE_SIZE);
+    expect(second).toHaveLength(10);
+    expect(times).toEqual([...times].sort().reverse());
+    expect(first.slice(0, 7).map((item) => item.author.did)).toEqual([
+      'did:plc:alice',
+      'did:plc:alice',
+      'did:plc:bob',
+      'did:plc:alice',
+      'did:plc:bob',
+      'did:plc:alice',
+      'did:plc:carol',
+    ]);
+    expect(feed.hasMore()).toBe(false);
+    expect(await feed.loadPage()).toEqual([]);
+  });
+
+  it('skips sessions their authors keep out of feeds', async () => {
+    // A whole page of private sessions must not end the account's feed
+    follow('did:plc:alice', [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 'private');
+    pds.repos.get('did:plc:alice')!.push(session('did:plc:alice', 0));
+    follow('did:plc:bob', [20], 'friends-only');
+    follow('did:plc:carol', [30], 'public');
+
+    const items = await new FriendsFeed(USER).loadPage();
+
+    expect(items.map((item) => item.session.uri)).toEqual([
+      session('did:plc:carol', 30).uri,
+      session('did:plc:alice', 0).uri,
+    ]);
+  });
+
+  it('follows each account’s cursor until its sessions run out', async () => {
+    follow(
+      'did:plc:alice',
+      Array.from({ length: 25 }, (_, i) => i)
+    );
+
+    const feed = new FriendsFeed(USER);
+    const first = await feed.loadPage();
+    const second = await feed.loadPage();
+
+    expect(first).toHaveLength(20);
+    expect(second).toHaveLength(5);
+    expect(readsOf('did:plc:alice')).toEqual([null, '1', '11', '21']);
+    expect(second[4].session.uri).toBe(session('did:plc:alice', 0).uri);
+  });
+
+  it('lists follows across several pages', async () => {
+    for (let i = 0; i < 150; i++) {
+      pds.follows.push(`did:plc:quiet${i}`);
+    }
+    follow('did:plc:alice', [1]);
+
+    const items = await new FriendsFeed(USER).loadPage();
+
+    expect(items.map((item) => item.author.did)).toEqual(['did:plc:alice']);
+  });
+
+  it('places every account by its newest session before the first page', async () => {
+    for (let i = 0; i < 30; i++) {
+      follow(
+        `did:plc:friend${i}`,
+        Array.from({ length: 10 }, (_, minute) => i * 10 + minute)
+      );
+    }
+    // Followed last, with the newest sessions of all
+    follow('did:plc:newfriend', [1000, 1001]);
+
+    const items = await new FriendsFeed(USER).loadPage();
+    const times = items.map((item) => item.session.createdAt);
+
+    expect(items.slice(0, 2).map((item) => item.author.did)).toEqual([
+      'did:plc:newfriend',
+      'did:plc:newfriend',
+    ]);
+    expect(times).toEqual([...times].sort().reverse());
+  });
+
+  it('asks accounts whose turn has not come for their newest session only', async () => {
+    for (let i = 0; i < 30; i++) {
+      follow(
+        `did:plc:friend${i}`,
+        Array.from({ length: 10 }, (_, minute) => i * 10 + minute)
+      );
+    }
+
+    const feed = new FriendsFeed(USER);
+    await feed.loadPage();
+
+    expect(pds.reads.filter(([did]) => did === 'did:plc:friend0')).toEqual([
+      ['did:plc:friend0', null, 1],
+    ]);
+    expect(pds.reads.filter(([, , limit]) => limit > 1).length).toBeLessThan(5);
+    expect(feed.hasMore()).toBe(true);
+  });
+
+  it('remembers follows without sessions for a day', async () => {
+    pds.follows.push('did:plc:quiet');
+    follow('did:plc:alice', [1]);
+
+    await new FriendsFeed(USER).loadPage();
+    expect(readsOf('did:plc:quiet')).toEqual([null]);
+
+    pds.reads = [];
+    await new FriendsFeed(USER).loadPage();
+    expect(readsOf('did:plc:quiet')).toEqual([]);
+
+    vi.setSystemTime(Date.now() + 25 * 60 * 60_000);
+    pds.reads = [];
+    await new FriendsFeed(USER).loadPage();
+    expect(readsOf('did:plc:quiet')).toEqual([null]);
+  });
+
+  it('shows everyone else when one account cannot be reached', async () => {
+    follow('did:plc:alice', [1]);
+    follow('did:plc:bob', [2]);
+    pds.unreachable.add('did:plc:bob');
+
+    const feed = new FriendsFeed(USER);
+    const items = await feed.loadPage();
+
+    expect(items.map((item) => item.author.did)).toEqual(['did:plc:alice']);
+    expect(feed.hasMore()).toBe(false);
+  });
+
+  it('caches the first page for the next visit', async () => {
+    follow('did:plc:alice', [1, 2]);
+
+    const items = await new FriendsFeed(USER).loadPage();
+
+    expect(pds.cache.get(USER)).toMatchObject({ did: USER, items });
+  });
+});
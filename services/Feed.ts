@@ -0,0 +1,302 @@
+/**
+ * Friends' activity feed.
+ * Lists the accounts the user follows, reads their meditation sessions
+ * straight from each account's PDS and merges them newest first. Before
+ * the first page, each account is asked only for its newest session, a few
+ * accounts at a time; that is enough to place it in the merge. More of an
+ * account's sessions are read only once the merge reaches them, and each
+ * account is paged separately, so loading more only reads from accounts
+ * whose sessions are next in line. Sessions marked private are never
+ * shown.
+ * The first page is cached for an instant display on the next visit, and
+ * follows without any sessions are remembered for a day so they are not
+ * looked up every time.
+ */
+
+import {
+  ProfileSummary,
+  PublicRepo,
+  getFollows,
+  getRepoMeditationSessions,
+  resolveRepo,
+} from './API';
+import { FEED_STORE, withStore } from './Database';
+import { MeditationSessionData } from './LexiconTypes';
+
+export interface FeedItem {
+  author: ProfileSummary;
+  session: MeditationSessionData;
+}
+
+interface FeedCacheEntry {
+  did: string;
+  items: FeedItem[];
+  // Follows found without sessions, by DID, with when they were checked
+  inactive: Record<string, number>;
+  savedAt: string;
+}
+
+// Reading position in one followed account's sessions
+interface FeedAuthor {
+  profile: ProfileSummary;
+  repo: PublicRepo | null;
+  // Fetched sessions not yet shown, newest first
+  buffer: MeditationSessionData[];
+  cursor: string | null;
+  fetched: boolean;
+  exhausted: boolean;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+// Sessions read by the first request to an account, which only needs the
+// newest one to place the account in the merge
+const SESSIONS_PER_PROBE = 1;
+// Sessions read per request from each account after that
+const SESSIONS_PER_FETCH = 10;
+// Accounts read at the same time
+const FETCH_CONCURRENCY = 4;
+// Follows listed at most, to bound the work of building the feed
+const MAX_FOLLOWS = 1000;
+// How long a follow without sessions is skipped
+const INACTIVE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const SHARE_SESSIONS_STORAGE_KEY = 'shareSessions';
+
+/**
+ * Returns whether new sessions are shared in friends' feeds by default
+ */
+export function getShareSessionsDefault(): boolean {
+  return localStorage.getItem(SHARE_SESSIONS_STORAGE_KEY) !== 'false';
+}
+
+/**
+ * Remembers whether new sessions are shared in friends' feeds by default
+ * @param share - true to share
+ */
+export function setShareSessionsDefault(share: boolean): void {
+  localStorage.setItem(SHARE_SESSIONS_STORAGE_KEY, share.toString());
+}
+
+/**
+ * Returns true if a session may be shown in other users' feeds. Values
+ * other than 'public' from newer clients are treated as private.
+ * @param session - Session from another user's repo
+ */
+export function isSessionShared(session: MeditationSessionData): boolean {
+  return session.visibility === null || session.visibility === 'public';
+}
+
+/**
+ * Returns the cached first page of an account's feed
+ * @param did - DID of the signed-in account
+ */
+export async function loadCachedFeed(did: string): Promise<FeedItem[]> {
+  const entry = await readFeedCache(did);
+  return entry?.items ?? [];
+}
+
+/**
+ * Removes the cached feed of an account
+ * @param did - Account DID
+ */
+export async function clearFeedCache(did: string): Promise<void> {
+  await withStore(FEED_STORE, 'readwrite', (store) => store.delete(did));
+}
+
+function readFeedCache(did: string): Promise<FeedCacheEntry | undefined> {
+  return withStore<FeedCacheEntry | undefined>(
+    FEED_STORE,
+    'readonly',
+    (store) => store.get(did)
+  );
+}
+
+// Helper: Run a task for every item with at most `limit` running at once
+async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+}
+
+export class FriendsFeed {
+  private authors: FeedAuthor[] = [];
+  private inactive: Record<string, number> = {};
+  private started = false;
+  private pagesLoaded = 0;
+
+  /**
+   * @param did - DID of the signed-in account whose follows are shown
+   */
+  constructor(private did: string) {}
+
+  /**
+   * Returns true while older sessions may remain to be loaded
+   */
+  hasMore(): boolean {
+    return (
+      !this.started ||
+      this.authors.some(
+        (author) => author.buffer.length > 0 || !author.exhausted
+      )
+    );
+  }
+
+  /**
+   * Loads the next page of sessions from followed accounts, newest first.
+   * The first call lists the follows; the first page is saved to the cache.
+   * @param signal - Stops loading when aborted
+   * @returns Up to FEED_PAGE_SIZE items, empty once the feed is exhausted
+   * @throws {DOMException} AbortError if the signal is aborted
+   * @throws {Error} If the follows cannot be listed
+   */
+  async loadPage(signal?: AbortSignal): Promise<FeedItem[]> {
+    if (!this.started) {
+      await this.start(signal);
+    }
+
+    const items: FeedItem[] = [];
+    while (items.length < FEED_PAGE_SIZE) {
+      await this.fillBuffers(signal);
+
+      // Take the newest buffered session across all accounts
+      let newest: FeedAuthor | null = null;
+      for (const author of this.authors) {
+        if (
+          author.buffer.length > 0 &&
+          (!newest || author.buffer[0].createdAt > newest.buffer[0].createdAt)
+        ) {
+          newest = author;
+        }
+      }
+      if (!newest) break;
+
+      items.push({ author: newest.profile, session: newest.buffer.shift()! });
+    }
+
+    this.pagesLoaded++;
+    if (this.pagesLoaded === 1) {
+      await this.saveCache(items).catch((error) => {
+        console.error('Failed to write feed cache:', error);
+      });
+    }
+    return items;
+  }
+
+  // List every follow, skipping the ones recently found without sessions
+  private async start(signal?: AbortSignal): Promise<void> {
+    const cached = await readFeedCache(this.did).catch(() => undefined);
+    const now = Date.now();
+    Object.entries(cached?.inactive ?? {}).forEach(([did, checkedAt]) => {
+      if (now - checkedAt < INACTIVE_TTL_MS) {
+        this.inactive[did] = checkedAt;
+      }
+    });
+
+    const follows: ProfileSummary[] = [];
+    let cursor: string | null = null;
+    do {
+      signal?.throwIfAborted();
+      const page = await getFollows(this.did, { limit: 100, cursor });
+      follows.push(...page.follows);
+      cursor = page.follows.length > 0 ? page.cursor : null;
+    } while (cursor && follows.length < MAX_FOLLOWS);
+
+    this.authors = follows
+      .filter((profile) => !(profile.did in this.inactive))
+      .map((profile) => ({
+        profile,
+        repo: null,
+        buffer: [],
+        cursor: null,
+        fetched: false,
+        exhausted: false,
+      }));
+    this.started = true;
+  }
+
+  /**
+   * Makes sure the merge can pick the next session: every account has been
+   * read once, and every account has one session buffered unless it ran out
+   */
+  private async fillBuffers(signal?: AbortSignal): Promise<void> {
+    await this.refill(
+      this.authors.filter(
+        (author) =>
+          !author.fetched || (author.buffer.length === 0 && !author.exhausted)
+      ),
+      signal
+    );
+  }
+
+  // Fetch sessions for accounts until each has something to show
+  private async refill(
+    authors: FeedAuthor[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    let pending = authors;
+
+    // A page may hold only private sessions, so keep going until each
+    // account has something to show or has nothing left
+    while (pending.length > 0) {
+      signal?.throwIfAborted();
+      await forEachConcurrently(pending, FETCH_CONCURRENCY, (author) =>
+        this.fetchSessions(author, signal)
+      );
+      signal?.throwIfAborted();
+      pending = pending.filter(
+        (author) => author.buffer.length === 0 && !author.exhausted
+      );
+    }
+  }
+
+  private async fetchSessions(
+    author: FeedAuthor,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const isFirstFetch = !author.fetched;
+    author.fetched = true;
+
+    try {
+      author.repo ??= await resolveRepo(author.profile.did, signal);
+      const page = await getRepoMeditationSessions(author.repo, {
+        limit: isFirstFetch ? SESSIONS_PER_PROBE : SESSIONS_PER_FETCH,
+        cursor: author.cursor,
+      });
+
+      author.buffer.push(...page.meditationSessions.filter(isSessionShared));
+      author.cursor = page.cursor;
+      author.exhausted = !page.cursor || page.total === 0;
+
+      if (isFirstFetch && page.total === 0) {
+        this.inactive[author.profile.did] = Date.now();
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      // One unreachable PDS should not hide everyone else's sessions
+      console.warn(`Skipping feed for ${author.profile.did}:`, error);
+      author.exhausted = true;
+    }
+  }
+
+  private async saveCache(items: FeedItem[]): Promise<void> {
+    const entry: FeedCacheEntry = {
+      did: this.did,
+      items,
+      inactive: this.inactive,
+      savedAt: new Date().toISOString(),
+    };
+    await withStore(FEED_STORE, 'readwrite', (store) => store.put(entry));
+  }
+}
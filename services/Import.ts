@@ -0,0 +1,547 @@
+/**
+ * Bulk import of session history from CSV files and the app's own JSON
+ * archives.
+ * Imported records keep their original timestamps. Record keys are derived
+ * from each record's content, so importing the same file twice, or again
+ * after a failure, finds the records already written instead of creating
+ * duplicates. Records are written in atomic applyWrites batches.
+ */
+
+import { TID } from '@atproto/common-web';
+import {
+  MAX_BATCH_WRITES,
+  createRecordsBatch,
+  findExistingRecords,
+  getRecordKey,
+  prepareMeditationSessionRecord,
+} from './API';
+import {
+  MEDITATION_SESSION_NSID,
+  PRESET_NSID,
+  validateRecord,
+} from './Lexicons';
+import {
+  MeditationSessionRecord,
+  PresetData,
+  PresetRecord,
+  toMeditationSessionData,
+  toPresetData,
+} from './LexiconTypes';
+import { EXPORT_FORMAT, EXPORT_VERSION } from './Export';
+import Store, { MeditationSessionData } from './Store';
+
+export type ImportItem =
+  | {
+      collection: typeof MEDITATION_SESSION_NSID;
+      rkey: string;
+      record: MeditationSessionRecord;
+      // Where the item came from, e.g. "Row 12"
+      source: string;
+    }
+  | {
+      collection: typeof PRESET_NSID;
+      rkey: string;
+      record: PresetRecord;
+      source: string;
+    };
+
+export interface ImportIssue {
+  source: string;
+  message: string;
+}
+
+export interface ParsedImport {
+  items: ImportItem[];
+  // Rows that could not be read
+  errors: ImportIssue[];
+  // Rows imported with some information left out
+  warnings: ImportIssue[];
+}
+
+export interface ImportPlan {
+  // Records to write, presets first so sessions can reference them
+  items: ImportItem[];
+  duplicates: number;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Which CSV column holds each session field, by column index
+ */
+export interface CsvColumnMapping {
+  date: number;
+  duration: number;
+  durationUnit: 'seconds' | 'minutes';
+  notes: number | null;
+  preset: number | null;
+}
+
+export interface ImportProgress {
+  completed: number;
+  total: number;
+}
+
+const BATCH_SIZE = Math.min(100, MAX_BATCH_WRITES);
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Helper: Split CSV text into rows of fields, following RFC 4180 quoting
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parses CSV text with a header row. Comma, semicolon and tab separated
+ * files are recognized from the header row.
+ * @param text - File contents
+ * @returns Header names and data rows, without blank rows
+ * @throws {Error} If the file has no header row
+ */
+export function readCsvTable(text: string): CsvTable {
+  const content = text.replace(/^﻿/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const [headers, ...rows] = parseCsv(content, delimiter);
+  if (!headers || headers.every((header) => !header.trim())) {
+    throw new Error('The file has no header row');
+  }
+
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows: rows.filter((row) => row.some((field) => field.trim())),
+  };
+}
+
+/**
+ * Guesses which columns hold which fields from the header names
+ * @param headers - Header row
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header));
+    return index === -1 ? null : index;
+  };
+
+  const duration = find(/duration|length|minutes|seconds|time spent/i);
+  return {
+    date: find(/date|created|start|when/i) ?? 0,
+    duration: duration ?? Math.min(1, headers.length - 1),
+    durationUnit:
+      duration !== null && /sec/i.test(headers[duration])
+        ? 'seconds'
+        : 'minutes',
+    notes: find(/note|comment|journal|description/i),
+    preset: find(/preset/i),
+  };
+}
+
+// Helper: Undo the apostrophe our CSV export adds before formula characters
+function unescapeCsvField(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+// Helper: Parse a duration as a number in the given unit, or as
+// minutes:seconds / hours:minutes:seconds
+function parseDuration(
+  value: string,
+  unit: CsvColumnMapping['durationUnit']
+): number | null {
+  const trimmed = value.trim();
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(trimmed)) {
+    return trimmed
+      .split(':')
+      .reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  }
+
+  const amount = Number(trimmed);
+  if (!trimmed || isNaN(amount) || amount < 0) return null;
+  return Math.round(unit === 'minutes' ? amount * 60 : amount);
+}
+
+// Helper: Small stable hash used to pick a TID clock id from a record's
+// content, so records created at the same instant get different keys
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// Helper: Record key derived from a record's timestamp and content
+function deriveRecordKey(createdAt: string, content: string): string {
+  const micros = new Date(createdAt).getTime() * 1000;
+  return TID.fromTime(micros, hashString(content) % 1024).toString();
+}
+
+// Helper: Message of a caught error
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Turns CSV rows into session records
+ * @param table - Parsed CSV
+ * @param mapping - Column for each field
+ * @param presets - Existing presets, matched by name to fill in the preset
+ * @returns Session items, the rows that could not be read, and the rows
+ * whose preset name matches no preset
+ */
+export function sessionsFromCsv(
+  table: CsvTable,
+  mapping: CsvColumnMapping,
+  presets: readonly PresetData[]
+): ParsedImport {
+  const presetsByName = new Map(
+    presets.map((preset) => [preset.name.trim().toLowerCase(), preset])
+  );
+  const items: ImportItem[] = [];
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+
+  table.rows.forEach((row, index) => {
+    // Data rows counted from 1, as a spreadsheet shows them below the header
+    const source = `Row ${index + 1}`;
+    const field = (column: number | null) =>
+      column === null ? '' : unescapeCsvField(row[column] ?? '').trim();
+
+    const date = new Date(field(mapping.date));
+    if (isNaN(date.getTime())) {
+      errors.push({
+        source,
+        message: `Unreadable date "${field(mapping.date)}"`,
+      });
+      return;
+    }
+
+    const duration = parseDuration(
+      field(mapping.duration),
+      mapping.durationUnit
+    );
+    if (duration === null) {
+      errors.push({
+        source,
+        message: `Unreadable duration "${field(mapping.duration)}"`,
+      });
+      return;
+    }
+
+    const presetName = field(mapping.preset);
+    const preset = presetsByName.get(presetName.toLowerCase());
+    const notes = field(mapping.notes) || null;
+    const createdAt = date.toISOString();
+
+    try {
+      const record = prepareMeditationSessionRecord(
+        duration,
+        preset ? { uri: preset.uri, cid: preset.cid } : null,
+        notes,
+        createdAt
+      );
+      items.push({
+        collection: MEDITATION_SESSION_NSID,
+        rkey: deriveRecordKey(createdAt, `${duration}|${notes ?? ''}`),
+        record,
+        source,
+      });
+      if (presetName && !preset) {
+        warnings.push({
+          source,
+          message: `No preset named "${presetName}"; imported without a preset`,
+        });
+      }
+    } catch (error) {
+      errors.push({ source, message: errorMessage(error) });
+    }
+  });
+
+  return { items, errors, warnings };
+}
+
+/**
+ * Reads an archive written by the export feature. Records keep their
+ * original record keys, and references to presets in the archive are
+ * pointed at the account being imported into.
+ * @param text - File contents
+ * @param did - DID of the account being imported into
+ * @returns Preset and session items, and the records that could not be read
+ * @throws {Error} If the file is not a supported archive
+ */
+export function itemsFromArchive(text: string, did: string): ParsedImport {
+  let archive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (archive?.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a meditation data export');
+  }
+  if (typeof archive.version !== 'number' || archive.version > EXPORT_VERSION) {
+    throw new Error(
+      `Archive version ${archive.version} is not supported; please update the app`
+    );
+  }
+
+  const sourcePrefix = `at://${archive.did}/`;
+  const targetPrefix = `at://${did}/`;
+  const retarget = (uri: string) =>
+    uri.startsWith(sourcePrefix)
+      ? targetPrefix + uri.slice(sourcePrefix.length)
+      : uri;
+
+  const items: ImportItem[] = [];
+  const errors: ImportIssue[] = [];
+
+  const readRecords = (
+    collection: ImportItem['collection'],
+    entries: unknown
+  ) => {
+    if (!Array.isArray(entries)) return;
+
+    entries.forEach((entry, index) => {
+      const source = entry?.uri ?? `${collection} #${index + 1}`;
+      try {
+        let value = entry?.value;
+        if (collection === MEDITATION_SESSION_NSID && value) {
+          value = {
+            ...value,
+            ...(value.preset && {
+              preset: { ...value.preset, uri: retarget(value.preset.uri) },
+            }),
+            ...(value.presetId && { presetId: retarget(value.presetId) }),
+          };
+        }
+
+        const error = validateRecord(collection, value);
+        if (error) throw new Error(error);
+
+        items.push({
+          collection,
+          rkey: getRecordKey(entry.uri),
+          record: value,
+          source,
+        } as ImportItem);
+      } catch (error) {
+        errors.push({ source, message: errorMessage(error) });
+      }
+    });
+  };
+
+  readRecords(PRESET_NSID, archive.presets);
+  readRecords(MEDITATION_SESSION_NSID, archive.meditationSessions);
+
+  return { items, errors, warnings: [] };
+}
+
+// Helper: Content fingerprint used to spot a record that already exists
+// under another record key, e.g. one imported by another tool
+function fingerprint(
+  collection: string,
+  record: { createdAt: string; duration: number; name?: string }
+): string {
+  const time = new Date(record.createdAt).getTime();
+  return `${collection}|${Math.floor(time / 1000)}|${record.duration}|${
+    record.name ?? ''
+  }`;
+}
+
+/**
+ * Separates new records from ones that already exist, either in the
+ * account or earlier in the same file
+ * @param parsed - Items read from the file
+ * @param existingSessions - Every session in the account
+ * @param existingPresets - Every preset in the account
+ */
+export function planImport(
+  parsed: ParsedImport,
+  existingSessions: readonly MeditationSessionData[],
+  existingPresets: readonly PresetData[]
+): ImportPlan {
+  const seenKeys = new Set<string>();
+  const seenFingerprints = new Set<string>();
+
+  existingSessions.forEach((existing) => {
+    seenKeys.add(`${MEDITATION_SESSION_NSID}/${getRecordKey(existing.uri)}`);
+    seenFingerprints.add(fingerprint(MEDITATION_SESSION_NSID, existing));
+  });
+  existingPresets.forEach((existing) => {
+    seenKeys.add(`${PRESET_NSID}/${getRecordKey(existing.uri)}`);
+    seenFingerprints.add(fingerprint(PRESET_NSID, existing));
+  });
+
+  let duplicates = 0;
+  const items = parsed.items.filter((item) => {
+    const key = `${item.collection}/${item.rkey}`;
+    const print = fingerprint(item.collection, item.record);
+    if (seenKeys.has(key) || seenFingerprints.has(print)) {
+      duplicates++;
+      return false;
+    }
+    seenKeys.add(key);
+    seenFingerprints.add(print);
+    return true;
+  });
+
+  // Presets are written first so sessions never reference a missing preset
+  items.sort(
+    (a, b) =>
+      Number(a.collection !== PRESET_NSID) -
+      Number(b.collection !== PRESET_NSID)
+  );
+
+  // Rows that are not imported need no warning
+  const sources = new Set(items.map((item) => item.source));
+  const warnings = parsed.warnings.filter((issue) => sources.has(issue.source));
+
+  return { items, duplicates, errors: parsed.errors, warnings };
+}
+
+/**
+ * Writes a planned import in batches. If a batch fails, run() can be
+ * called again to continue from that batch. A failed batch may have been
+ * committed anyway, e.g. when only the response was lost, so its records
+ * are looked up first and only the missing ones are written.
+ */
+export class ImportJob {
+  private completed = 0;
+  // Whether the next batch was attempted before and may exist already
+  private verifyNextBatch = false;
+
+  /**
+   * @param items - Records to write, in order
+   */
+  constructor(private items: ImportItem[]) {}
+
+  /**
+   * Returns how many records have been written so far
+   */
+  getProgress(): ImportProgress {
+    return { completed: this.completed, total: this.items.length };
+  }
+
+  /**
+   * Returns true once every record has been written
+   */
+  isComplete(): boolean {
+    return this.completed >= this.items.length;
+  }
+
+  /**
+   * Writes the remaining records, adding each batch to the Store as it
+   * succeeds
+   * @param onProgress - Called after each batch
+   * @param signal - Stops before the next batch when aborted
+   * @throws {DOMException} AbortError if the signal is aborted
+   * @throws {Error} If a batch fails; earlier batches stay written
+   */
+  async run(
+    onProgress?: (progress: ImportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    while (!this.isComplete()) {
+      signal?.throwIfAborted();
+
+      const batch = this.items.slice(
+        this.completed,
+        this.completed + BATCH_SIZE
+      );
+      const existing = this.verifyNextBatch
+        ? await findExistingRecords(batch)
+        : batch.map(() => null);
+      const missing = batch.filter((_, index) => !existing[index]);
+
+      let created: { uri: string; cid: string }[];
+      try {
+        created = missing.length > 0 ? await createRecordsBatch(missing) : [];
+      } catch (error) {
+        this.verifyNextBatch = true;
+        throw error;
+      }
+      this.verifyNextBatch = false;
+
+      const results = existing.map((found) => found ?? created.shift()!);
+      addToStore(batch, results);
+
+      this.completed += batch.length;
+      onProgress?.(this.getProgress());
+    }
+  }
+}
+
+// Helper: Add written records to the Store, newest first
+function addToStore(
+  items: ImportItem[],
+  results: { uri: string; cid: string }[]
+): void {
+  const sessions: MeditationSessionData[] = [];
+  const presets: PresetData[] = [];
+
+  items.forEach((item, index) => {
+    const { uri, cid } = results[index];
+    if (item.collection === MEDITATION_SESSION_NSID) {
+      sessions.push(toMeditationSessionData(uri, cid, item.record));
+    } else {
+      presets.push(toPresetData(uri, cid, item.record));
+    }
+  });
+
+  const newestFirst = (a: { createdAt: string }, b: { createdAt: string }) =>
+    b.createdAt.localeCompare(a.createdAt);
+
+  Store.setState((state) => ({
+    meditationSessions: [...sessions, ...state.meditationSessions].sort(
+      newestFirst
+    ),
+    presets: [...presets, ...state.presets].sort(newestFirst),
+  }));
+}
@@ -0,0 +1,263 @@
+/**
+ * Visual timeline for placing sound intervals within a preset's duration
+ */
+
+import { RecurringSound, SoundInterval } from './LexiconTypes';
+import { expandSoundIntervals } from './SoundRules';
+import {
+  SoundChoice,
+  createSoundSelect,
+  getSoundChoices,
+  getSoundLabel,
+} from './Sounds';
+import { createButton, formatTime, clearContainer } from './UIComponents';
+
+const DEFAULT_SOUND_TYPE = 'bell';
+
+export class IntervalTimeline {
+  readonly element: HTMLElement;
+  private track: HTMLElement;
+  private endLabel: HTMLElement;
+  private details: HTMLElement;
+  private intervals: SoundInterval[];
+  private recurringSounds: RecurringSound[] = [];
+  private selectedIndex: number | null = null;
+  private dragging = false;
+
+  /**
+   * @param duration - Preset duration in seconds
+   * @param intervals - Initial sound intervals (copied, not mutated)
+   * @param onPreview - Called with a sound type when the user previews it
+   * @param soundChoices - Sounds offered for each bell
+   */
+  constructor(
+    private duration: number,
+    intervals: SoundInterval[],
+    private onPreview: (soundType: string) => void,
+    private soundChoices: SoundChoice[] = getSoundChoices([])
+  ) {
+    this.intervals = intervals.map((interval) => ({ ...interval }));
+
+    this.element = document.createElement('div');
+    this.element.className = 'interval-timeline';
+
+    this.track = document.createElement('div');
+    this.track.className = 'timeline-track';
+    this.track.addEventListener('click', (e: MouseEvent) => {
+      // Clicks on markers are handled by the markers themselves
+      if (e.target !== this.track) return;
+      this.addInterval(this.timeFromPointer(e.clientX));
+    });
+    this.element.appendChild(this.track);
+
+    const labels = document.createElement('div');
+    labels.className = 'timeline-labels';
+    const startLabel = document.createElement('span');
+    startLabel.textContent = formatTime(0);
+    this.endLabel = document.createElement('span');
+    labels.appendChild(startLabel);
+    labels.appendChild(this.endLabel);
+    this.element.appendChild(labels);
+
+    const hint = document.createElement('p');
+    hint.className = 'timeline-hint';
+    hint.textContent =
+      'Click the timeline to add a bell. Drag a bell to move it.';
+    this.element.appendChild(hint);
+
+    this.details = document.createElement('div');
+    this.details.className = 'timeline-details';
+    this.element.appendChild(this.details);
+
+    this.render();
+  }
+
+  /**
+   * Returns a sorted copy of the current sound intervals
+   */
+  getIntervals(): SoundInterval[] {
+    return this.intervals
+      .map((interval) => ({ ...interval }))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Updates the duration the timeline spans
+   * @param duration - Preset duration in seconds
+   */
+  setDuration(duration: number): void {
+    this.duration = Math.max(0, duration);
+    this.render();
+  }
+
+  /**
+   * Shows the bells that repeating rules ring. These are drawn for
+   * reference only and cannot be selected or dragged.
+   * @param rules - Recurring sounds of the preset
+   */
+  setRecurringSounds(rules: RecurringSound[]): void {
+    this.recurringSounds = rules;
+    this.renderMarkers();
+  }
+
+  /**
+   * Adds a bell at the given time and selects it
+   * @param time - Time in seconds
+   */
+  addInterval(time: number): void {
+    this.intervals.push({ time, soundType: DEFAULT_SOUND_TYPE });
+    this.selectedIndex = this.intervals.length - 1;
+    this.render();
+  }
+
+  private removeInterval(index: number): void {
+    this.intervals.splice(index, 1);
+    this.selectedIndex = null;
+    this.render();
+  }
+
+  // Convert a pointer x coordinate into a whole number of seconds
+  private timeFromPointer(clientX: number): number {
+    const rect = this.track.getBoundingClientRect();
+    if (rect.width === 0) return 0;
+    const fraction = Math.min(
+      1,
+      Math.max(0, (clientX - rect.left) / rect.width)
+    );
+    return Math.round(fraction * this.duration);
+  }
+
+  private render(): void {
+    this.endLabel.textContent = formatTime(this.duration);
+    this.renderMarkers();
+    this.renderDetails();
+  }
+
+  private renderMarkers(): void {
+    clearContainer(this.track);
+
+    expandSoundIntervals(this.duration, [], this.recurringSounds).forEach(
+      (interval) => {
+        const marker = document.createElement('div');
+        marker.className = 'timeline-marker recurring';
+        marker.title = `${this.getLabel(interval.soundType)} at ${formatTime(
+          interval.time
+        )} (repeating)`;
+        this.positionMarker(marker, interval.time);
+        this.track.appendChild(marker);
+      }
+    );
+
+    this.intervals.forEach((interval, index) => {
+      const marker = document.createElement('div');
+      marker.className = 'timeline-marker';
+      if (index === this.selectedIndex) marker.classList.add('selected');
+      if (interval.time > this.duration) marker.classList.add('invalid');
+      marker.title = `${this.getLabel(interval.soundType)} at ${formatTime(
+        interval.time
+      )}`;
+      this.positionMarker(marker, interval.time);
+
+      marker.addEventListener('pointerdown', (e: PointerEvent) => {
+        e.preventDefault();
+        this.selectedIndex = index;
+        this.dragging = true;
+        marker.setPointerCapture(e.pointerId);
+        this.renderDetails();
+        this.track
+          .querySelectorAll('.timeline-marker')
+          .forEach((el) => el.classList.remove('selected'));
+        marker.classList.add('selected');
+      });
+
+      marker.addEventListener('pointermove', (e: PointerEvent) => {
+        if (!this.dragging || this.selectedIndex !== index) return;
+        interval.time = this.timeFromPointer(e.clientX);
+        marker.classList.remove('invalid');
+        marker.title = `${this.getLabel(interval.soundType)} at ${formatTime(
+          interval.time
+        )}`;
+        this.positionMarker(marker, interval.time);
+        this.renderDetails();
+      });
+
+      marker.addEventListener('pointerup', (e: PointerEvent) => {
+        this.dragging = false;
+        marker.releasePointerCapture(e.pointerId);
+      });
+
+      this.track.appendChild(marker);
+    });
+  }
+
+  private getLabel(soundType: string): string {
+    return getSoundLabel(soundType, this.soundChoices);
+  }
+
+  private positionMarker(marker: HTMLElement, time: number): void {
+    const fraction = this.duration > 0 ? Math.min(1, time / this.duration) : 0;
+    marker.style.left = `${fraction * 100}%`;
+  }
+
+  private renderDetails(): void {
+    clearContainer(this.details);
+
+    if (this.selectedIndex === null) {
+      const summary = document.createElement('p');
+      summary.className = 'timeline-hint';
+      summary.textContent =
+        this.intervals.length === 0
+          ? 'No bells yet.'
+          : `${this.intervals.length} bell(s). Select one to edit it.`;
+      this.details.appendChild(summary);
+      return;
+    }
+
+    const index = this.selectedIndex;
+    const interval = this.intervals[index];
+
+    // Time input (seconds)
+    const timeLabel = document.createElement('label');
+    timeLabel.textContent = 'Time (seconds):';
+    const timeInput = document.createElement('input');
+    timeInput.type = 'number';
+    timeInput.min = '0';
+    timeInput.max = this.duration.toString();
+    timeInput.value = interval.time.toString();
+    timeInput.addEventListener('change', () => {
+      const time = parseInt(timeInput.value);
+      interval.time = isNaN(time) ? 0 : Math.max(0, time);
+      this.renderMarkers();
+    });
+    timeLabel.appendChild(timeInput);
+    this.details.appendChild(timeLabel);
+
+    // Sound type selector, keeping unknown types from other clients
+    const soundLabel = document.createElement('label');
+    soundLabel.textContent = 'Sound:';
+    const soundSelect = createSoundSelect(
+      this.soundChoices,
+      interval.soundType
+    );
+    soundSelect.addEventListener('change', () => {
+      interval.soundType = soundSelect.value;
+      this.renderMarkers();
+    });
+    soundLabel.appendChild(soundSelect);
+    this.details.appendChild(soundLabel);
+
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+    buttonContainer.appendChild(
+      createButton('Preview', 'secondary', () => {
+        this.onPreview(interval.soundType);
+      })
+    );
+    buttonContainer.appendChild(
+      createButton('Remove Bell', 'secondary', () => {
+        this.removeInterval(index);
+      })
+    );
+    this.details.appendChild(buttonContainer);
+  }
+}
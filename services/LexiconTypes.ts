@@ -0,0 +1,280 @@
+// Generated by scripts/generate-lexicon-types.mjs from lexicons/. Do not edit.
+// Run `npm run codegen` after changing a lexicon.
+
+import type { BlobRef } from '@atproto/lexicon';
+import { validateRecord } from './Lexicons';
+
+export type StrongRef = {
+  uri: string;
+  cid: string;
+};
+
+// place.starting.meditationSession (lexicons/place/starting/meditationSession.json)
+
+/** A completed meditation session */
+export type MeditationSessionRecord = {
+  $type: 'place.starting.meditationSession';
+  /** When the meditation session was created */
+  createdAt: string;
+  /** Duration of the meditation session in seconds */
+  duration: number;
+  /** Deprecated: use preset. URI of the preset used for this meditation session, kept for older clients */
+  presetId?: string;
+  /** Optional strong reference (URI and CID) to the preset used for this meditation session */
+  preset?: StrongRef;
+  /** Optional user notes about the meditation session */
+  notes?: string;
+  /** Whether other users' apps may show the session in their feeds. Records are publicly readable either way; absent means public */
+  visibility?: 'public' | 'private' | (string & {});
+};
+
+export type MeditationSessionData = {
+  uri: string;
+  cid: string;
+  createdAt: string;
+  duration: number;
+  presetId: string | null;
+  preset: StrongRef | null;
+  notes: string | null;
+  visibility: ('public' | 'private' | (string & {})) | null;
+};
+
+/**
+ * Checks a value against the place.starting.meditationSession lexicon
+ */
+export function isMeditationSessionRecord(
+  value: unknown
+): value is MeditationSessionRecord {
+  return validateRecord('place.starting.meditationSession', value) === null;
+}
+
+/**
+ * Maps a validated MeditationSession record value to the app's model
+ */
+export function toMeditationSessionData(
+  uri: string,
+  cid: string,
+  value: MeditationSessionRecord
+): MeditationSessionData {
+  return {
+    uri,
+    cid,
+    createdAt: value.createdAt,
+    duration: value.duration,
+    presetId: value.presetId ?? null,
+    preset: value.preset ?? null,
+    notes: value.notes ?? null,
+    visibility: value.visibility ?? null,
+  };
+}
+
+/**
+ * Maps the app's model back to a MeditationSession record value
+ */
+export function toMeditationSessionRecord(
+  data: MeditationSessionData
+): MeditationSessionRecord {
+  return {
+    $type: 'place.starting.meditationSession',
+    createdAt: data.createdAt,
+    duration: data.duration,
+    ...(data.presetId !== null && { presetId: data.presetId }),
+    ...(data.preset !== null && { preset: data.preset }),
+    ...(data.notes !== null && { notes: data.notes }),
+    ...(data.visibility !== null && { visibility: data.visibility }),
+  };
+}
+
+// place.starting.preset (lexicons/place/starting/preset.json)
+
+/** A user's saved meditation preset */
+export type PresetRecord = {
+  $type: 'place.starting.preset';
+  /** Name of the preset */
+  name: string;
+  /** Duration of the meditation preset in seconds. For presets with segments, the sum of the segment durations */
+  duration: number;
+  /** Array of sound intervals to play during the meditation */
+  soundIntervals?: SoundInterval[];
+  /** Rules for sounds repeated at a fixed period. The sounds they produce are also listed in soundIntervals, for clients that do not read this field */
+  recurringSounds?: RecurringSound[];
+  /** Ordered parts of the meditation, each with a name and optional guidance. Transition sounds are also listed in soundIntervals, for clients that do not read this field */
+  segments?: Segment[];
+  /** Uploaded sounds to play for sound types used in this preset. Clients without access to a sound play a default bell instead */
+  customSounds?: CustomSound[];
+  /** Optional strong reference to a place.starting.sound record played from the start of the session, in step with the timer */
+  guidedAudio?: StrongRef;
+  /** When the preset was created */
+  createdAt: string;
+  /** Optional strong reference (URI and CID) to the preset this one was copied from, usually in another user's repo */
+  copiedFrom?: StrongRef;
+};
+
+export type PresetData = {
+  uri: string;
+  cid: string;
+  name: string;
+  duration: number;
+  soundIntervals: SoundInterval[];
+  recurringSounds: RecurringSound[];
+  segments: Segment[];
+  customSounds: CustomSound[];
+  guidedAudio: StrongRef | null;
+  createdAt: string;
+  copiedFrom: StrongRef | null;
+};
+
+/**
+ * Checks a value against the place.starting.preset lexicon
+ */
+export function isPresetRecord(value: unknown): value is PresetRecord {
+  return validateRecord('place.starting.preset', value) === null;
+}
+
+/**
+ * Maps a validated Preset record value to the app's model
+ */
+export function toPresetData(
+  uri: string,
+  cid: string,
+  value: PresetRecord
+): PresetData {
+  return {
+    uri,
+    cid,
+    name: value.name,
+    duration: value.duration,
+    soundIntervals: value.soundIntervals ?? [],
+    recurringSounds: value.recurringSounds ?? [],
+    segments: value.segments ?? [],
+    customSounds: value.customSounds ?? [],
+    guidedAudio: value.guidedAudio ?? null,
+    createdAt: value.createdAt,
+    copiedFrom: value.copiedFrom ?? null,
+  };
+}
+
+/**
+ * Maps the app's model back to a Preset record value
+ */
+export function toPresetRecord(data: PresetData): PresetRecord {
+  return {
+    $type: 'place.starting.preset',
+    name: data.name,
+    duration: data.duration,
+    soundIntervals: data.soundIntervals,
+    recurringSounds: data.recurringSounds,
+    segments: data.segments,
+    customSounds: data.customSounds,
+    ...(data.guidedAudio !== null && { guidedAudio: data.guidedAudio }),
+    createdAt: data.createdAt,
+    ...(data.copiedFrom !== null && { copiedFrom: data.copiedFrom }),
+  };
+}
+
+/** Binds a sound type used in the preset to an uploaded sound */
+export type CustomSound = {
+  /** Sound type as used in soundIntervals, recurringSounds and segments */
+  soundType: string;
+  /** Strong reference to a place.starting.sound record, possibly in another user's repo */
+  sound: StrongRef;
+};
+
+/** A named part of a meditation */
+export type Segment = {
+  /** Name of the segment, e.g. 'Body scan' */
+  name: string;
+  /** Duration of the segment in seconds */
+  duration: number;
+  /** Text shown on screen during the segment */
+  guidance?: string;
+  /** Type of sound to play when the segment begins. For the first segment, it replaces the start bell */
+  transitionSound?: string;
+};
+
+/** A sound repeated at a fixed period during meditation */
+export type RecurringSound = {
+  /** Time in seconds when the sound first plays */
+  start: number;
+  /** Seconds between repetitions */
+  period: number;
+  /** Number of times the sound plays. If absent, it repeats until the end of the meditation */
+  count?: number;
+  /** Type of sound to play (e.g., 'bell', 'chime', 'gong') */
+  soundType: string;
+};
+
+/** A sound to play at a specific time during meditation */
+export type SoundInterval = {
+  /** Time in seconds when the sound should play */
+  time: number;
+  /** Type of sound to play (e.g., 'bell', 'chime', 'gong') */
+  soundType: string;
+};
+
+// place.starting.sound (lexicons/place/starting/sound.json)
+
+/** An audio recording uploaded by a user, such as a bell or a guided meditation, for use in presets */
+export type SoundRecord = {
+  $type: 'place.starting.sound';
+  /** Name of the sound */
+  name: string;
+  /** How presets use the sound: 'bell' for a short sound played at moments of the session, 'guidance' for a recording played from the start of the session. Absent means bell */
+  kind?: 'bell' | 'guidance' | (string & {});
+  /** The recording */
+  audio: BlobRef;
+  /** Length of the recording in seconds, if known */
+  duration?: number;
+  /** When the sound was uploaded */
+  createdAt: string;
+};
+
+export type SoundData = {
+  uri: string;
+  cid: string;
+  name: string;
+  kind: ('bell' | 'guidance' | (string & {})) | null;
+  audio: BlobRef;
+  duration: number | null;
+  createdAt: string;
+};
+
+/**
+ * Checks a value against the place.starting.sound lexicon
+ */
+export function isSoundRecord(value: unknown): value is SoundRecord {
+  return validateRecord('place.starting.sound', value) === null;
+}
+
+/**
+ * Maps a validated Sound record value to the app's model
+ */
+export function toSoundData(
+  uri: string,
+  cid: string,
+  value: SoundRecord
+): SoundData {
+  return {
+    uri,
+    cid,
+    name: value.name,
+    kind: value.kind ?? null,
+    audio: value.audio,
+    duration: value.duration ?? null,
+    createdAt: value.createdAt,
+  };
+}
+
+/**
+ * Maps the app's model back to a Sound record value
+ */
+export function toSoundRecord(data: SoundData): SoundRecord {
+  return {
+    $type: 'place.starting.sound',
+    name: data.name,
+    ...(data.kind !== null && { kind: data.kind }),
+    audio: data.audio,
+    ...(data.duration !== null && { duration: data.duration }),
+    createdAt: data.createdAt,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Runtime validation against the app's lexicon documents in lexicons/
+ */
+
+import { schemas } from '@atproto/api';
+import { LexiconDoc, Lexicons } from '@atproto/lexicon';
+import meditationSessionLexicon from '../lexicons/place/starting/meditationSession.json';
+import presetLexicon from '../lexicons/place/starting/preset.json';
+import soundLexicon from '../lexicons/place/starting/sound.json';
+
+export const MEDITATION_SESSION_NSID = 'place.starting.meditationSession';
+export const PRESET_NSID = 'place.starting.preset';
+export const SOUND_NSID = 'place.starting.sound';
+
+// Upload limits for sound recordings, as declared in the lexicon
+export const SOUND_MIME_TYPES: readonly string[] =
+  soundLexicon.defs.main.record.properties.audio.accept;
+export const SOUND_MAX_SIZE: number =
+  soundLexicon.defs.main.record.properties.audio.maxSize;
+
+// Lexicons from other namespaces that our records reference
+const REFERENCED_NSIDS = ['com.atproto.repo.strongRef'];
+
+const lexicons = new Lexicons([
+  meditationSessionLexicon as LexiconDoc,
+  presetLexicon as LexiconDoc,
+  soundLexicon as LexiconDoc,
+  ...(schemas.filter((doc) =>
+    REFERENCED_NSIDS.includes(doc.id)
+  ) as LexiconDoc[]),
+]);
+
+/**
+ * A listed record that failed validation and was left out of the Store
+ */
+export interface InvalidRecord {
+  uri: string;
+  cid: string;
+  collection: string;
+  error: string;
+}
+
+/**
+ * Validates a record value against its collection's lexicon
+ * @param collection - Collection NSID (e.g., 'place.starting.preset')
+ * @param value - Record value, including $type
+ * @returns null if valid, otherwise a description of the problem
+ */
+export function validateRecord(
+  collection: string,
+  value: unknown
+): string | null {
+  try {
+    lexicons.assertValidRecord(collection, value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Validates a record value against its collection's lexicon
+ * @param collection - Collection NSID (e.g., 'place.starting.preset')
+ * @param value - Record value, including $type
+ * @throws {Error} If the record does not match the lexicon
+ */
+export function assertValidRecord(collection: string, value: unknown): void {
+  const error = validateRecord(collection, value);
+  if (error) {
+    throw new Error(`Invalid ${collection} record: ${error}`);
+  }
+}
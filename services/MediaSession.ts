@@ -0,0 +1,164 @@
+/**
+ * Shows the running meditation session on the lock screen and in the
+ * system's media controls, through the Media Session API.
+ * Browsers only show media controls while the page plays media, and bells
+ * are short sounds with silence in between, so a silent recording loops for
+ * as long as the session runs.
+ */
+
+import { APP_ICONS } from './AppShell';
+import { CLIENT_NAME } from './OAuthConfig';
+
+// Length of the silent loop; media shorter than a few seconds gets no
+// system controls
+const SILENCE_SECONDS = 10;
+const SILENCE_SAMPLE_RATE = 8000;
+
+export interface SessionMediaHandlers {
+  play: () => void;
+  pause: () => void;
+}
+
+// Helper: Build a WAV file of silence (8-bit mono PCM)
+function createSilence(): Blob {
+  const samples = SILENCE_SECONDS * SILENCE_SAMPLE_RATE;
+  const view = new DataView(new ArrayBuffer(44 + samples));
+  const writeText = (offset: number, text: string) => {
+    [...text].forEach((char, i) =>
+      view.setUint8(offset + i, char.charCodeAt(0))
+    );
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the format chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, SILENCE_SAMPLE_RATE, true);
+  view.setUint32(28, SILENCE_SAMPLE_RATE, true); // Bytes per second
+  view.setUint16(32, 1, true); // Bytes per sample
+  view.setUint16(34, 8, true); // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, samples, true);
+  for (let i = 0; i < samples; i++) {
+    view.setUint8(44 + i, 128); // Silence is the midpoint of 8-bit samples
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+export class SessionMediaControls {
+  private element: HTMLAudioElement | null = null;
+  private url: string | null = null;
+  private title = '';
+
+  /**
+   * @param album - Shown below the title, e.g. the preset's name
+   * @param handlers - Called from the system's play and pause controls
+   */
+  constructor(private album: string, private handlers: SessionMediaHandlers) {}
+
+  /**
+   * Shows the session in the media controls. Call it while handling the
+   * click that starts the session, as browsers only start media then.
+   * @param title - Shown as the title, e.g. the current segment
+   */
+  start(title: string): void {
+    if (!('mediaSession' in navigator) || this.element) return;
+
+    this.url = URL.createObjectURL(createSilence());
+    this.element = new Audio(this.url);
+    this.element.loop = true;
+    this.element.play().catch((error) => {
+      console.warn('Media controls unavailable:', error);
+    });
+
+    this.setTitle(title);
+    navigator.mediaSession.playbackState = 'playing';
+    this.setActionHandler('play', () => this.handlers.play());
+    this.setActionHandler('pause', () => this.handlers.pause());
+  }
+
+  /**
+   * Updates the title and the progress shown in the media controls
+   * @param title - Shown as the title, e.g. the current segment
+   * @param elapsedSeconds - Seconds elapsed in the session
+   * @param durationSeconds - Length of the session in seconds
+   */
+  update(title: string, elapsedSeconds: number, durationSeconds: number): void {
+    if (!this.element) return;
+
+    this.setTitle(title);
+    try {
+      navigator.mediaSession.setPositionState({
+        duration: durationSeconds,
+        position: Math.min(elapsedSeconds, durationSeconds),
+        playbackRate: 1,
+      });
+    } catch {
+      // Not supported by every browser
+    }
+  }
+
+  /**
+   * Shows whether the session is paused
+   * @param paused - True while the timer is paused
+   */
+  setPaused(paused: boolean): void {
+    if (!this.element) return;
+
+    navigator.mediaSession.playbackState = paused ? 'paused' : 'playing';
+    if (paused) {
+      this.element.pause();
+    } else {
+      this.element.play().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Removes the session from the media controls
+   */
+  stop(): void {
+    if (!this.element) return;
+
+    this.element.pause();
+    this.element.removeAttribute('src');
+    this.element.load();
+    this.element = null;
+    URL.revokeObjectURL(this.url!);
+    this.url = null;
+
+    navigator.mediaSession.metadata = null;
+    navigator.mediaSession.playbackState = 'none';
+    this.setActionHandler('play', null);
+    this.setActionHandler('pause', null);
+  }
+
+  private setTitle(title: string): void {
+    if (title === this.title) return;
+
+    this.title = title;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title,
+      artist: CLIENT_NAME,
+      album: this.album,
+      artwork: APP_ICONS.map((icon) => ({
+        ...icon,
+        src: new URL(icon.src, document.baseURI).href,
+      })),
+    });
+  }
+
+  private setActionHandler(
+    action: MediaSessionAction,
+    handler: MediaSessionActionHandler | null
+  ): void {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      // Browsers throw for actions they do not support
+    }
+  }
+}
@@ -2,31 +2,196 @@
  * Navigation manager for handling view transitions in the meditation app
  */
 
-import Store from './Store';
+import Store, {
+  MeditationSessionData,
+  Selector,
+  StoreListener,
+  selectInvalidRecords,
+  selectMeditationSessions,
+  selectPresetByUri,
+  selectPresets,
+  selectSounds,
+} from './Store';
 import {
   createButton,
   formatSessionDate,
+  formatTime,
   clearContainer,
+  createBarChart,
+  KeyedElements,
+  updateKeyedList,
 } from './UIComponents';
 import {
-  createMeditationSession,
+  updateMeditationSession,
+  deleteMeditationSession,
+  createPreset,
+  updatePreset,
+  deletePreset,
+  copyPreset,
+  validatePreset,
   getPresets,
   getMeditationSessions,
+  getRecordKey,
+  resolveRepo,
+  getAllRepoPresets,
+  SessionVisibility,
+  SoundKind,
+  createBlueskyPost,
+  uploadSound,
+  deleteSound,
 } from './API';
+import { AtUri } from '@atproto/api';
 import { session } from '../app';
+import { GuidedPlayback, SoundPlayer, SoundSchedule } from './Audio';
+import { IntervalTimeline } from './IntervalTimeline';
+import { RecurringSoundList } from './RecurringSoundList';
+import { SegmentList } from './SegmentList';
+import { SessionMediaControls } from './MediaSession';
+import { ScreenWakeLock } from './WakeLock';
+import { getSegmentAt, getSegmentsDuration } from './Segments';
+import {
+  InvalidRecord,
+  PRESET_NSID,
+  SOUND_MAX_SIZE,
+  SOUND_MIME_TYPES,
+} from './Lexicons';
+import { CustomSound, PresetData, SoundData, StrongRef } from './LexiconTypes';
+import {
+  describeRecurringSound,
+  getOneOffIntervals,
+  getTransitionSounds,
+} from './SoundRules';
+import {
+  findCustomSound,
+  getCustomSoundType,
+  getPresetAudio,
+  getSoundChoices,
+  getSoundLabel,
+  hasPresetAudio,
+  isGuidedSound,
+  loadPresetAudio,
+  loadRecording,
+  readRecordingDuration,
+  saveRecording,
+} from './Sounds';
+import { computeStats } from './Stats';
+import { MeditationTimer } from './Timer';
+import { Router } from './Router';
+import {
+  buildExportArchive,
+  buildSessionsCsv,
+  downloadFile,
+  fetchExportData,
+} from './Export';
+import {
+  CsvColumnMapping,
+  CsvTable,
+  ImportJob,
+  ImportPlan,
+  ParsedImport,
+  guessCsvMapping,
+  itemsFromArchive,
+  planImport,
+  readCsvTable,
+  sessionsFromCsv,
+} from './Import';
+import {
+  discardQueuedSession,
+  flushOutbox,
+  queueMeditationSession,
+} from './Outbox';
+import {
+  POST_MAX_GRAPHEMES,
+  buildSessionPost,
+  composeSessionSummary,
+  getPostDefault,
+  getPostUrl,
+  parsePostText,
+  setPostDefault,
+} from './Bluesky';
+import {
+  FeedItem,
+  FriendsFeed,
+  getShareSessionsDefault,
+  isSessionShared,
+  loadCachedFeed,
+  setShareSessionsDefault,
+} from './Feed';
+
+// Number of sessions shown per page in the past sessions list
+const SESSIONS_PAGE_SIZE = 10;
+
+// Number of unreadable rows listed in the import preview
+const IMPORT_ISSUES_SHOWN = 5;
+
+// Time added by the "+5 Minutes" button in the meditating view
+const EXTEND_SECONDS = 5 * 60;
 
 type ViewName =
   | 'mainMenu'
   | 'newMeditation'
   | 'presets'
+  | 'presetEditor'
   | 'sessions'
+  | 'stats'
+  | 'export'
+  | 'import'
+  | 'browsePresets'
+  | 'feed'
+  | 'sounds'
   | 'meditating';
 
 export class NavigationManager {
   private currentView: ViewName = 'mainMenu';
+  private soundPlayer = new SoundPlayer();
+  private router = new Router();
+  // Cleanups for the active view, run when another view is shown
+  private leaveCallbacks: (() => void)[] = [];
 
   constructor() {
-    // Initialize view event listeners if needed
+    this.router
+      .add('/', () => this.showMainMenu())
+      .add('/meditate', ({ query }) =>
+        this.showNewMeditationForm(query.get('preset'))
+      )
+      .add('/sessions', () => this.showPastSessions())
+      .add('/stats', () => this.showStats())
+      .add('/feed', () => this.showFeed())
+      .add('/export', () => this.showExport())
+      .add('/import', () => this.showImport())
+      .add('/presets', () => this.showPresetsList())
+      .add('/presets/new', () => this.showPresetEditor())
+      .add('/sounds', () => this.showSounds())
+      .add('/presets/browse', ({ query }) =>
+        this.showBrowsePresets(query.get('repo'))
+      )
+      .add('/presets/:rkey', ({ params }) => {
+        const preset = this.findPresetByRecordKey(params.rkey);
+        if (preset) {
+          this.showPresetEditor(preset);
+        } else {
+          this.router.navigate('/presets', { replace: true });
+        }
+      })
+      .otherwise(() => this.router.navigate('/', { replace: true }));
+  }
+
+  /**
+   * Starts following the URL: shows the view for the current route and
+   * handles the browser's back and forward buttons
+   * @param initialRoute - Route to show instead of the one in the URL, e.g.
+   * the route the user was on before signing in
+   */
+  startRouting(initialRoute?: string): void {
+    this.router.start(initialRoute);
+  }
+
+  /**
+   * Stops following the URL, e.g. after signing out
+   */
+  stopRouting(): void {
+    this.leaveCurrentView();
+    this.router.stop();
   }
 
   /**
@@ -36,16 +201,54 @@ export class NavigationManager {
     return this.currentView;
   }
 
+  /**
+   * Helper to register cleanup for the active view
+   */
+  private onLeaveView(callback: () => void): void {
+    this.leaveCallbacks.push(callback);
+  }
+
+  /**
+   * Helper to run and clear the active view's cleanups
+   */
+  private leaveCurrentView(): void {
+    const callbacks = this.leaveCallbacks;
+    this.leaveCallbacks = [];
+    callbacks.forEach((callback) => callback());
+  }
+
+  /**
+   * Helper to follow part of the Store while the active view is shown
+   */
+  private watch<T>(selector: Selector<T>, listener: StoreListener<T>): void {
+    this.onLeaveView(Store.subscribe(selector, listener));
+  }
+
   /**
    * Helper to toggle view visibility
+   * @param viewId - Element id of the view to show
+   * @param route - Route recorded in the URL for the view, if it has one
    */
-  private activateView(viewId: string): void {
+  private activateView(viewId: string, route?: string): void {
+    this.leaveCurrentView();
+
+    if (route !== undefined) {
+      this.router.setRoute(route);
+    }
+
     // Hide all views
     const views = [
       'mainMenuView',
       'newMeditationFormView',
       'presetsView',
+      'presetEditorView',
       'sessionsView',
+      'statsView',
+      'exportView',
+      'importView',
+      'browsePresetsView',
+      'feedView',
+      'soundsView',
       'meditatingView',
     ];
     views.forEach((id) => {
@@ -68,15 +271,23 @@ export class NavigationManager {
    */
   showMainMenu(): void {
     this.currentView = 'mainMenu';
-    this.activateView('mainMenuView');
+    this.activateView('mainMenuView', '/');
   }
 
   /**
    * Show the new meditation session form
+   * @param presetRkey - Record key of a preset to select initially
    */
-  showNewMeditationForm(): void {
+  showNewMeditationForm(presetRkey: string | null = null): void {
+    const initialPreset = presetRkey
+      ? this.findPresetByRecordKey(presetRkey)
+      : undefined;
+
     this.currentView = 'newMeditation';
-    this.activateView('newMeditationFormView');
+    this.activateView(
+      'newMeditationFormView',
+      initialPreset ? this.meditateRoute(initialPreset) : '/meditate'
+    );
 
     const container = document.getElementById('newMeditationFormView');
     if (!container) return;
@@ -112,16 +323,49 @@ export class NavigationManager {
     noneOption.textContent = 'None';
     presetSelect.appendChild(noneOption);
 
-    // Add presets from store
-    Store.presets.forEach((preset) => {
-      const option = document.createElement('option');
-      option.value = preset.uri;
-      option.textContent = `${preset.name} (${preset.duration}s)`;
-      presetSelect.appendChild(option);
-    });
+    // Add presets from store, keeping the options current as presets change
+    const presetOptions: KeyedElements<PresetData> = new Map();
+    const renderPresetOptions = (presets: readonly PresetData[]) => {
+      const selected = presetSelect.value;
+      noneOption.remove();
+      updateKeyedList(
+        presetSelect,
+        presets,
+        (preset) => preset.uri,
+        (preset) => {
+          const option = document.createElement('option');
+          option.value = preset.uri;
+          option.textContent = `${preset.name} (${preset.duration}s)`;
+          return option;
+        },
+        presetOptions
+      );
+      presetSelect.prepend(noneOption);
+      presetSelect.value = presetOptions.has(selected) ? selected : '';
+    };
+    renderPresetOptions(Store.select(selectPresets));
+    this.watch(selectPresets, renderPresetOptions);
     presetLabel.appendChild(presetSelect);
     form.appendChild(presetLabel);
 
+    // Choosing a preset fills in its duration and keeps it in the URL, so
+    // the form can be bookmarked with the preset selected
+    const selectPreset = (preset: PresetData | undefined) => {
+      if (preset) {
+        durationInput.value = (preset.duration / 60).toString();
+      }
+      this.router.setRoute(preset ? this.meditateRoute(preset) : '/meditate', {
+        replace: true,
+      });
+    };
+    presetSelect.addEventListener('change', () => {
+      selectPreset(this.findPresetByUri(presetSelect.value));
+    });
+    if (initialPreset) {
+      presetSelect.value = initialPreset.uri;
+      selectPreset(initialPreset);
+    }
+
     // Notes textarea
     const notesLabel = document.createElement('label');
     notesLabel.textContent = 'Notes (optional):';
@@ -130,6 +374,22 @@ export class NavigationManager {
     notesLabel.appendChild(notesTextarea);
     form.appendChild(notesLabel);
 
+    // Sharing, remembered as the default for the next session
+    const shareLabel = document.createElement('label');
+    shareLabel.className = 'checkbox-label';
+    const shareCheckbox = document.createElement('input');
+    shareCheckbox.type = 'checkbox';
+    shareCheckbox.checked = getShareSessionsDefault();
+    shareLabel.appendChild(shareCheckbox);
+    shareLabel.appendChild(document.createTextNode("Show in friends' feeds"));
+    form.appendChild(shareLabel);
+
+    // Status line for validation errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    form.appendChild(statusEl);
+
     // Button container
     const buttonContainer = document.createElement('div');
     buttonContainer.className = 'button-group';
@@ -139,8 +399,26 @@ export class NavigationManager {
       'Start Meditation',
       'primary',
       async () => {
-        const duration = parseInt(durationInput.value) * 60; // Convert to seconds
-        this.showMeditatingView(duration);
+        const duration = Math.round(parseFloat(durationInput.value) * 60); // Convert to seconds
+        // An empty or zero duration would start a session that never ends
+        if (!Number.isFinite(duration) || duration <= 0) {
+          this.showViewStatus(
+            statusEl,
+            'Enter a duration of more than zero minutes',
+            true
+          );
+          return;
+        }
+
+        const preset = this.findPresetByUri(presetSelect.value) ?? null;
+        const notes = notesTextarea.value.trim() || null;
+        setShareSessionsDefault(shareCheckbox.checked);
+        this.showMeditatingView(
+          duration,
+          preset,
+          notes,
+          shareCheckbox.checked ? null : 'private'
+        );
       }
     );
 
@@ -158,8 +436,18 @@ export class NavigationManager {
 
   /**
    * Show the meditating view with countdown timer
+   * @param durationInSeconds - Length of the countdown
+   * @param preset - Preset chosen in the form; its bells play and a
+   * reference to it is saved with the session
+   * @param notes - Notes entered in the form, saved with the session
+   * @param visibility - 'private' keeps the session out of friends' feeds
    */
-  showMeditatingView(durationInSeconds: number): void {
+  showMeditatingView(
+    durationInSeconds: number,
+    preset: PresetData | null = null,
+    notes: string | null = null,
+    visibility: SessionVisibility | null = null
+  ): void {
     this.currentView = 'meditating';
     this.activateView('meditatingView');
 
@@ -181,46 +469,534 @@ export class NavigationManager {
     countdown.style.margin = '40px 0';
     countdown.style.textAlign = 'center';
 
-    // Function to format seconds as MM:SS
-    const formatTime = (totalSeconds: number): string => {
-      const minutes = Math.floor(totalSeconds / 60);
-      const seconds = totalSeconds % 60;
-      return `${minutes.toString().padStart(2, '0')}:${seconds
-        .toString()
-        .padStart(2, '0')}`;
-    };
-
     // Initialize countdown display
-    let remainingTime = durationInSeconds;
-    countdown.textContent = formatTime(remainingTime);
-    container.appendChild(countdown);
+    countdown.textContent = formatTime(durationInSeconds);
+
+    // Presets with segments show the current segment's name and guidance,
+    // count down the segment and show the progress of the whole session
+    const segments = preset?.segments ?? [];
+    const segmentInfo = document.createElement('p');
+    segmentInfo.className = 'segment-info';
+    const guidance = document.createElement('p');
+    guidance.className = 'segment-guidance';
+    const progress = document.createElement('progress');
+    progress.className = 'session-progress';
+    const progressText = document.createElement('p');
+    progressText.className = 'segment-info';
+
+    const getActivityTitle = (elapsed: number, duration: number): string =>
+      getSegmentAt(segments, elapsed, duration)?.segment.name ??
+      'Meditating...';
+
+    const renderProgress = (
+      elapsed: number,
+      remaining: number,
+      duration: number
+    ) => {
+      const position = getSegmentAt(segments, elapsed, duration);
+      if (!position) {
+        countdown.textContent = formatTime(remaining);
+        return;
+      }
+
+      countdown.textContent = formatTime(position.remaining);
+      segmentInfo.textContent = `Segment ${position.index + 1} of ${
+        segments.length
+      }`;
+      guidance.textContent = position.segment.guidance ?? '';
+      guidance.style.display = position.segment.guidance ? 'block' : 'none';
+      progress.max = duration;
+      progress.value = elapsed;
+      progressText.textContent = `${formatTime(remaining)} remaining overall`;
+      if (timer.getPhase() !== 'paused') {
+        title.textContent = position.segment.name;
+      }
+    };
 
-    // Start the countdown
-    const intervalId = setInterval(() => {
-      remainingTime--;
-      countdown.textContent = formatTime(remainingTime);
+    if (segments.length > 0) {
+      container.appendChild(segmentInfo);
+      container.appendChild(countdown);
+      container.appendChild(guidance);
+      container.appendChild(progress);
+      container.appendChild(progressText);
+    } else {
+      container.appendChild(countdown);
+    }
 
-      if (remainingTime <= 0) {
-        clearInterval(intervalId);
-        // Meditation complete - could add completion logic here
-        countdown.textContent = 'Complete!';
+    // Timer controls
+    const controls = document.createElement('div');
+    controls.className = 'button-group';
+    const pauseButton = createButton('Pause', 'secondary', () => {
+      if (timer.getPhase() === 'paused') {
+        timer.resume();
+      } else {
+        timer.pause();
       }
-    }, 1000);
+    });
+    const extendButton = createButton('+5 Minutes', 'secondary', () => {
+      timer.extend(EXTEND_SECONDS);
+    });
+    controls.appendChild(pauseButton);
+    controls.appendChild(extendButton);
+    container.appendChild(controls);
+
+    // Volume control
+    const volumeLabel = document.createElement('label');
+    volumeLabel.className = 'volume-control';
+    volumeLabel.textContent = 'Volume:';
+    const volumeInput = document.createElement('input');
+    volumeInput.type = 'range';
+    volumeInput.min = '0';
+    volumeInput.max = '1';
+    volumeInput.step = '0.05';
+    volumeInput.value = this.soundPlayer.getVolume().toString();
+    volumeInput.addEventListener('input', () => {
+      this.soundPlayer.setVolume(parseFloat(volumeInput.value));
+    });
+    volumeLabel.appendChild(volumeInput);
+    container.appendChild(volumeLabel);
+
+    // Status line for the save result
+    const saveStatus = document.createElement('div');
+    saveStatus.className = 'status';
+    saveStatus.style.display = 'none';
+    container.appendChild(saveStatus);
+
+    // Offer to share the session once it is saved
+    const shareContainer = document.createElement('div');
+    shareContainer.className = 'bluesky-share';
+    container.appendChild(shareContainer);
+
+    const timer = new MeditationTimer(durationInSeconds);
+
+    // Schedule the chosen preset's bells against the countdown
+    const soundSchedule = preset
+      ? new SoundSchedule(
+          this.soundPlayer,
+          durationInSeconds,
+          [
+            ...getOneOffIntervals(
+              preset.soundIntervals,
+              preset.recurringSounds,
+              preset.duration,
+              preset.segments
+            ),
+            ...getTransitionSounds(preset.segments),
+          ],
+          preset.recurringSounds
+        )
+      : new SoundSchedule(this.soundPlayer, durationInSeconds);
+
+    // Guided recording of the preset, if it has one and it could be loaded
+    let guided: GuidedPlayback | null = null;
+
+    // Keep the screen on and show the session on the lock screen until it
+    // ends, so the device does not suspend the countdown
+    const wakeLock = new ScreenWakeLock();
+    const mediaControls = new SessionMediaControls(preset?.name ?? '', {
+      play: () => timer.resume(),
+      pause: () => timer.pause(),
+    });
+    const endSession = () => {
+      timer.stop();
+      soundSchedule.cancel();
+      guided?.stop();
+      wakeLock.release();
+      mediaControls.stop();
+    };
+
+    timer.on('tick', ({ elapsed, remaining, duration }) => {
+      renderProgress(elapsed, remaining, duration);
+      soundSchedule.setDuration(duration);
+      soundSchedule.tick(elapsed);
+      guided?.tick(elapsed);
+      mediaControls.update(
+        getActivityTitle(elapsed, duration),
+        elapsed,
+        duration
+      );
+    });
+
+    timer.on('phase', (phase) => {
+      if (phase === 'paused') guided?.pause();
+      mediaControls.setPaused(phase === 'paused');
+      pauseButton.textContent = phase === 'paused' ? 'Resume' : 'Pause';
+      title.textContent =
+        phase === 'paused'
+          ? 'Paused'
+          : getActivityTitle(
+              timer.getElapsedSeconds(),
+              timer.getDurationSeconds()
+            );
+    });
+
+    timer.on('complete', ({ elapsed }) => {
+      soundSchedule.complete();
+      guided?.stop();
+      wakeLock.release();
+      mediaControls.stop();
+      countdown.textContent = 'Complete!';
+      guidance.style.display = 'none';
+      title.textContent = 'Meditation Complete';
+      stopButton.textContent = 'Back to Menu';
+      controls.remove();
+
+      // Save the time actually spent meditating, excluding pauses
+      const presetRef = preset ? { uri: preset.uri, cid: preset.cid } : null;
+      this.saveSession(
+        Math.round(elapsed),
+        presetRef,
+        notes,
+        visibility,
+        saveStatus,
+        (saved) => this.offerBlueskyPost(shareContainer, saved, preset)
+      );
+    });
 
     // Add a stop button
     const stopButton = createButton('Stop Meditation', 'secondary', () => {
-      clearInterval(intervalId);
+      endSession();
       this.showMainMenu();
     });
     container.appendChild(stopButton);
+
+    // Leaving the view, e.g. with the browser's back button, ends the
+    // session the same way as the stop button
+    this.onLeaveView(endSession);
+
+    wakeLock.acquire();
+    mediaControls.start(getActivityTitle(0, durationInSeconds));
+
+    // Starts the session unless it was stopped while sounds were loading,
+    // in which case the recording is never opened
+    const begin = (guidedRecording: Blob | null = null) => {
+      if (timer.getPhase() !== 'idle') return;
+      // Only this preset's uploaded sounds play; sounds bound for an
+      // earlier preset or a preview do not carry over
+      this.soundPlayer.clearBindings();
+      preset?.customSounds.forEach((customSound) => {
+        this.soundPlayer.bindSound(customSound.soundType, customSound.sound);
+      });
+      if (guidedRecording) {
+        guided = new GuidedPlayback(this.soundPlayer, guidedRecording);
+      }
+      soundSchedule.start();
+      timer.start();
+    };
+
+    if (!preset || !hasPresetAudio(preset)) {
+      begin();
+      return;
+    }
+
+    // Uploaded sounds are fetched before the timer starts, so bells and the
+    // guided recording play on time. Audio must be allowed while the click
+    // that started the session still counts as a user gesture.
+    this.soundPlayer.unlock();
+    this.showViewStatus(saveStatus, 'Loading sounds...');
+    loadPresetAudio(this.soundPlayer, preset)
+      .then(({ guidedRecording, failed }) => {
+        if (failed > 0) {
+          this.showViewStatus(
+            saveStatus,
+            'Some uploaded sounds could not be loaded. A bell plays in their place.',
+            true
+          );
+        } else {
+          saveStatus.style.display = 'none';
+        }
+        begin(guidedRecording);
+      })
+      .catch((error) => {
+        // Meditate with the built-in sounds rather than not at all
+        console.error('Failed to load sounds:', error);
+        this.showViewStatus(
+          saveStatus,
+          'Uploaded sounds could not be loaded. A bell plays in their place.',
+          true
+        );
+        begin();
+      });
+  }
+
+  /**
+   * Queue a completed session for writing to the PDS and add it to the Store.
+   * If the write cannot be made yet, the session stays pending sync and is
+   * retried in the background; the status shown follows it until it syncs.
+   * @param onSaved - Called with the session once it is queued
+   */
+  private async saveSession(
+    duration: number,
+    preset: StrongRef | null,
+    notes: string | null,
+    visibility: SessionVisibility | null,
+    statusEl: HTMLElement,
+    onSaved?: (saved: MeditationSessionData) => void
+  ): Promise<void> {
+    clearContainer(statusEl);
+    statusEl.classList.remove('error');
+    statusEl.style.display = 'block';
+    statusEl.textContent = 'Saving session...';
+
+    try {
+      const saved = await queueMeditationSession(
+        duration,
+        preset,
+        notes,
+        visibility
+      );
+
+      // Follow the queued write, so the status changes once it syncs in
+      // the background or the PDS refuses it
+      const showSyncStatus = (current: MeditationSessionData) => {
+        clearContainer(statusEl);
+        statusEl.classList.toggle('error', !!current.syncError);
+        if (current.syncError) {
+          statusEl.textContent = `Saved on this device, but it could not be synced: ${current.syncError}`;
+        } else if (current.pendingSync) {
+          statusEl.textContent =
+            'Saved on this device. It will sync when the connection returns.';
+          const retryButton = createButton(
+            'Retry Sync Now',
+            'secondary',
+            () => {
+              flushOutbox(true);
+            }
+          );
+          statusEl.appendChild(retryButton);
+        } else {
+          statusEl.textContent = 'Session saved.';
+        }
+      };
+      showSyncStatus(saved);
+      if (saved.pendingSync && !saved.syncError) {
+        this.watch(
+          (state) => state.meditationSessions.find((s) => s.uri === saved.uri),
+          (current) => {
+            if (current) showSyncStatus(current);
+          }
+        );
+      }
+      onSaved?.(saved);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      statusEl.textContent = `Failed to save session: ${errorMsg}`;
+      statusEl.classList.add('error');
+
+      const retryButton = createButton('Retry Save', 'primary', () => {
+        this.saveSession(
+          duration,
+          preset,
+          notes,
+          visibility,
+          statusEl,
+          onSaved
+        );
+      });
+      statusEl.appendChild(retryButton);
+    }
+  }
+
+  /**
+   * Offer to post a saved session to Bluesky. The post embeds a reference
+   * to the session record, so the offer waits until the session has synced.
+   * The composer opens by itself if the account chose so; otherwise a
+   * button opens it.
+   */
+  private offerBlueskyPost(
+    container: HTMLElement,
+    saved: MeditationSessionData,
+    preset: PresetData | null
+  ): void {
+    if (!session) return;
+
+    const did = session.sub;
+    let offered = false;
+
+    const offer = (synced: MeditationSessionData) => {
+      if (offered) return;
+      offered = true;
+
+      const showButton = () => {
+        clearContainer(container);
+        container.appendChild(
+          createButton('Share to Bluesky', 'secondary', () => {
+            this.renderPostComposer(container, synced, preset, showButton);
+          })
+        );
+      };
+
+      if (getPostDefault(did)) {
+        this.renderPostComposer(container, synced, preset, showButton);
+      } else {
+        showButton();
+      }
+    };
+
+    if (!saved.pendingSync) {
+      offer(saved);
+      return;
+    }
+    this.watch(
+      (state) => state.meditationSessions.find((s) => s.uri === saved.uri),
+      (synced) => {
+        if (synced && !synced.pendingSync) offer(synced);
+      }
+    );
+  }
+
+  /**
+   * Helper to render the Bluesky post composer for a session, with an
+   * editable summary and a preview of the post
+   * @param onClose - Called when the user cancels
+   */
+  private renderPostComposer(
+    container: HTMLElement,
+    savedSession: MeditationSessionData,
+    preset: PresetData | null,
+    onClose: () => void
+  ): void {
+    clearContainer(container);
+
+    const heading = document.createElement('h3');
+    heading.textContent = 'Share to Bluesky';
+    container.appendChild(heading);
+
+    const form = document.createElement('form');
+    form.className = 'meditation-form';
+    container.appendChild(form);
+
+    // Editable summary
+    const textLabel = document.createElement('label');
+    textLabel.textContent = 'Post:';
+    const textArea = document.createElement('textarea');
+    textArea.rows = 4;
+    textArea.value = composeSessionSummary({
+      duration: savedSession.duration,
+      presetName: preset?.name ?? null,
+      streak: computeStats(Store.select(selectMeditationSessions))
+        .currentStreak,
+    });
+    textLabel.appendChild(textArea);
+    form.appendChild(textLabel);
+
+    const counter = document.createElement('div');
+    counter.className = 'post-counter';
+    form.appendChild(counter);
+
+    // Preview with links and hashtags marked up as they will be posted
+    const previewLabel = document.createElement('div');
+    previewLabel.className = 'post-preview-label';
+    previewLabel.textContent = 'Preview:';
+    form.appendChild(previewLabel);
+
+    const preview = document.createElement('div');
+    preview.className = 'post-preview';
+    const previewText = document.createElement('div');
+    previewText.className = 'post-preview-text';
+    const previewEmbed = document.createElement('div');
+    previewEmbed.className = 'post-preview-embed';
+    previewEmbed.textContent = `Meditation session - ${Math.round(
+      savedSession.duration / 60
+    )} minutes`;
+    preview.appendChild(previewText);
+    preview.appendChild(previewEmbed);
+    form.appendChild(preview);
+
+    const updatePreview = () => {
+      const richText = parsePostText(textArea.value);
+      clearContainer(previewText);
+      for (const segment of richText.segments()) {
+        if (segment.link) {
+          const link = document.createElement('a');
+          link.href = segment.link.uri;
+          link.target = '_blank';
+          link.rel = 'noopener noreferrer';
+          link.textContent = segment.text;
+          previewText.appendChild(link);
+        } else if (segment.tag) {
+          const tag = document.createElement('span');
+          tag.className = 'post-tag';
+          tag.textContent = segment.text;
+          previewText.appendChild(tag);
+        } else {
+          previewText.appendChild(document.createTextNode(segment.text));
+        }
+      }
+
+      counter.textContent = `${richText.graphemeLength} / ${POST_MAX_GRAPHEMES}`;
+      counter.classList.toggle(
+        'error',
+        richText.graphemeLength > POST_MAX_GRAPHEMES
+      );
+    };
+    textArea.addEventListener('input', updatePreview);
+    updatePreview();
+
+    // Per-account choice to open the composer after every session
+    const defaultLabel = document.createElement('label');
+    defaultLabel.className = 'checkbox-label';
+    const defaultCheckbox = document.createElement('input');
+    defaultCheckbox.type = 'checkbox';
+    defaultCheckbox.checked = session ? getPostDefault(session.sub) : false;
+    defaultCheckbox.addEventListener('change', () => {
+      if (session) setPostDefault(session.sub, defaultCheckbox.checked);
+    });
+    defaultLabel.appendChild(defaultCheckbox);
+    defaultLabel.appendChild(
+      document.createTextNode('Offer this after every session')
+    );
+    form.appendChild(defaultLabel);
+
+    // Status line for validation and post errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    form.appendChild(statusEl);
+
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+    const postButton = createButton('Post', 'primary', async () => {
+      postButton.disabled = true;
+      this.showViewStatus(statusEl, 'Posting...');
+
+      try {
+        const post = buildSessionPost(textArea.value, {
+          uri: savedSession.uri,
+          cid: savedSession.cid,
+        });
+        const response = await createBlueskyPost(post);
+
+        clearContainer(container);
+        const posted = document.createElement('div');
+        posted.className = 'status';
+        posted.textContent = 'Posted to Bluesky. ';
+        const link = document.createElement('a');
+        link.href = getPostUrl(response.uri);
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        link.textContent = 'View post';
+        posted.appendChild(link);
+        container.appendChild(posted);
+      } catch (error) {
+        postButton.disabled = false;
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(statusEl, `Failed to post: ${errorMsg}`, true);
+      }
+    });
+    const cancelButton = createButton('Cancel', 'secondary', onClose);
+    buttonContainer.appendChild(postButton);
+    buttonContainer.appendChild(cancelButton);
+    form.appendChild(buttonContainer);
   }
 
   /**
    * Show the list of available presets
    */
-  async showPresetsList(): Promise<void> {
+  showPresetsList(): void {
     this.currentView = 'presets';
-    this.activateView('presetsView');
+    this.activateView('presetsView', '/presets');
 
     const container = document.getElementById('presetsView');
     if (!container) return;
@@ -232,34 +1008,56 @@ export class NavigationManager {
     title.textContent = 'Meditation Presets';
     container.appendChild(title);
 
-    // Check if we have presets
-    if (Store.presets.length === 0) {
-      const noData = document.createElement('p');
-      noData.className = 'no-data';
-      noData.textContent = 'No presets found. Create one to get started!';
-      container.appendChild(noData);
-    } else {
-      // Create preset list
-      const presetList = document.createElement('div');
-      presetList.className = 'preset-list';
+    // Status line for action errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    container.appendChild(statusEl);
 
-      Store.presets.forEach((preset) => {
-        const presetItem = document.createElement('div');
-        presetItem.className = 'preset-item';
+    // Shown when there are no presets
+    const noData = document.createElement('p');
+    noData.className = 'no-data';
+    noData.textContent = 'No presets found. Create one to get started!';
+    container.appendChild(noData);
 
-        const presetName = document.createElement('strong');
-        presetName.textContent = preset.name;
+    // Create preset list, updated in place as presets change
+    const presetList = document.createElement('div');
+    presetList.className = 'preset-list';
+    container.appendChild(presetList);
 
-        const presetDuration = document.createElement('span');
-        presetDuration.textContent = ` - ${preset.duration} seconds`;
+    const presetItems: KeyedElements<PresetData> = new Map();
+    const renderPresets = (presets: readonly PresetData[]) => {
+      noData.style.display = presets.length === 0 ? '' : 'none';
+      updateKeyedList(
+        presetList,
+        presets,
+        (preset) => preset.uri,
+        (preset) => this.createPresetItem(preset, statusEl),
+        presetItems
+      );
+    };
+    renderPresets(Store.select(selectPresets));
+    this.watch(selectPresets, renderPresets);
 
-        presetItem.appendChild(presetName);
-        presetItem.appendChild(presetDuration);
-        presetList.appendChild(presetItem);
-      });
+    // Create button
+    const createPresetButton = createButton('Create Preset', 'primary', () => {
+      this.showPresetEditor();
+    });
+    container.appendChild(createPresetButton);
 
-      container.appendChild(presetList);
-    }
+    const browseButton = createButton(
+      "Browse Another User's Presets",
+      'secondary',
+      () => {
+        this.showBrowsePresets();
+      }
+    );
+    container.appendChild(browseButton);
+
+    const soundsButton = createButton('My Sounds', 'secondary', () => {
+      this.showSounds();
+    });
+    container.appendChild(soundsButton);
 
     // Back button
     const backButton = createButton('Back to Menu', 'secondary', () => {
@@ -269,50 +1067,227 @@ export class NavigationManager {
   }
 
   /**
-   * Show the list of past meditation sessions (10 most recent)
+   * Helper to build one row of the presets list
    */
-  showPastSessions(): void {
-    this.currentView = 'sessions';
-    this.activateView('sessionsView');
+  private createPresetItem(
+    preset: PresetData,
+    statusEl: HTMLElement
+  ): HTMLElement {
+    const presetItem = document.createElement('div');
+    presetItem.className = 'preset-item';
 
-    const container = document.getElementById('sessionsView');
+    const presetName = document.createElement('strong');
+    presetName.textContent = preset.name;
+
+    const presetDuration = document.createElement('span');
+    presetDuration.textContent = ` - ${preset.duration} seconds`;
+
+    presetItem.appendChild(presetName);
+    presetItem.appendChild(presetDuration);
+    this.appendSegmentSummary(presetItem, preset);
+
+    // Attribution for presets copied from another repo
+    if (preset.copiedFrom) {
+      const source = document.createElement('div');
+      source.className = 'preset-source';
+      const sourceLink = document.createElement('a');
+      sourceLink.href = `#${this.browseRoute(
+        new AtUri(preset.copiedFrom.uri).host
+      )}`;
+      sourceLink.textContent = "another user's presets";
+      source.appendChild(document.createTextNode('Copied from '));
+      source.appendChild(sourceLink);
+      presetItem.appendChild(source);
+    }
+
+    // Per-preset actions
+    const actions = document.createElement('div');
+    actions.className = 'item-actions';
+    actions.appendChild(
+      createButton('Edit', 'secondary', () => {
+        this.showPresetEditor(preset);
+      })
+    );
+    actions.appendChild(
+      createButton('Duplicate', 'secondary', () => {
+        this.showPresetEditor({
+          ...preset,
+          uri: '',
+          cid: '',
+          name: `${preset.name} (copy)`.slice(0, 100),
+        });
+      })
+    );
+    actions.appendChild(
+      createButton('Delete', 'secondary', async () => {
+        if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+
+        try {
+          await deletePreset(preset);
+        } catch (error) {
+          const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+          this.showViewStatus(
+            statusEl,
+            `Failed to delete preset: ${errorMsg}`,
+            true
+          );
+        }
+      })
+    );
+    presetItem.appendChild(actions);
+
+    return presetItem;
+  }
+
+  /**
+   * Show the user's uploaded sounds, with a form to upload more.
+   * Bells can be placed in presets like the built-in sounds, and guided
+   * recordings chosen as a preset's guided audio.
+   */
+  showSounds(): void {
+    this.currentView = 'sounds';
+    this.activateView('soundsView', '/sounds');
+
+    const container = document.getElementById('soundsView');
     if (!container) return;
 
     clearContainer(container);
 
     // Create title
     const title = document.createElement('h2');
-    title.textContent = 'Past Meditation Sessions';
+    title.textContent = 'My Sounds';
     container.appendChild(title);
 
-    // Check if we have sessions
-    if (Store.meditationSessions.length === 0) {
-      const noData = document.createElement('p');
-      noData.className = 'no-data';
-      noData.textContent = 'No meditation sessions yet. Start your first one!';
-      container.appendChild(noData);
-    } else {
-      // Get the 10 most recent sessions
-      const recentSessions = Store.meditationSessions.slice(0, 10);
+    // Upload form
+    const form = document.createElement('form');
+    form.className = 'meditation-form';
+
+    const fileLabel = document.createElement('label');
+    fileLabel.textContent = 'Audio file:';
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = SOUND_MIME_TYPES.join(',');
+    fileLabel.appendChild(fileInput);
+    form.appendChild(fileLabel);
 
-      // Create session list
-      const sessionList = document.createElement('div');
-      sessionList.className = 'session-list';
+    const nameLabel = document.createElement('label');
+    nameLabel.textContent = 'Name:';
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.maxLength = 100;
+    nameLabel.appendChild(nameInput);
+    form.appendChild(nameLabel);
 
-      recentSessions.forEach((session) => {
-        const sessionItem = document.createElement('div');
-        sessionItem.className = 'session-item';
+    // Default the name to the file name, without its extension
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file && !nameInput.value.trim()) {
+        nameInput.value = file.name.replace(/\.[^.]+$/, '').slice(0, 100);
+      }
+    });
 
-        const formattedDate = formatSessionDate(session.createdAt);
-        const durationMinutes = Math.round(session.duration / 60);
+    const kindLabel = document.createElement('label');
+    kindLabel.textContent = 'Use as:';
+    const kindSelect = document.createElement('select');
+    const kinds: { kind: SoundKind; label: string }[] = [
+      { kind: 'bell', label: 'Bell' },
+      { kind: 'guidance', label: 'Guided meditation' },
+    ];
+    kinds.forEach(({ kind, label }) => {
+      const option = document.createElement('option');
+      option.value = kind;
+      option.textContent = label;
+      kindSelect.appendChild(option);
+    });
+    kindLabel.appendChild(kindSelect);
+    form.appendChild(kindLabel);
 
-        sessionItem.textContent = `${formattedDate} - ${durationMinutes} minutes`;
+    const hint = document.createElement('p');
+    hint.className = 'timeline-hint';
+    hint.textContent = `Files up to ${Math.floor(
+      SOUND_MAX_SIZE / 1_000_000
+    )} MB are stored in your account and readable by anyone.`;
+    form.appendChild(hint);
 
-        sessionList.appendChild(sessionItem);
-      });
+    // Status line for upload and delete results
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    form.appendChild(statusEl);
 
-      container.appendChild(sessionList);
-    }
+    const uploadButton = createButton('Upload Sound', 'primary', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) {
+        this.showViewStatus(statusEl, 'Choose an audio file first.', true);
+        return;
+      }
+
+      uploadButton.disabled = true;
+      this.showViewStatus(statusEl, 'Uploading sound...');
+
+      try {
+        const duration = await readRecordingDuration(file);
+        const created = await uploadSound(
+          file,
+          nameInput.value.trim(),
+          kindSelect.value as SoundKind,
+          duration
+        );
+        // Keep the file, so the new sound plays without downloading it
+        await saveRecording(created.cid, file);
+        form.reset();
+        this.showViewStatus(statusEl, `Uploaded "${created.name}".`);
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(
+          statusEl,
+          `Failed to upload sound: ${errorMsg}`,
+          true
+        );
+      } finally {
+        uploadButton.disabled = false;
+      }
+    });
+    form.appendChild(uploadButton);
+    container.appendChild(form);
+
+    // Shown when there are no sounds
+    const noData = document.createElement('p');
+    noData.className = 'no-data';
+    noData.textContent = 'No sounds uploaded yet.';
+    container.appendChild(noData);
+
+    // Sound list, updated in place as sounds change
+    const soundList = document.createElement('div');
+    soundList.className = 'preset-list';
+    container.appendChild(soundList);
+
+    // Object URLs of recordings opened for listening, released on leaving
+    const objectUrls: string[] = [];
+    this.onLeaveView(() => {
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+    });
+
+    const soundItems: KeyedElements<SoundData> = new Map();
+    const renderSounds = (sounds: readonly SoundData[]) => {
+      noData.style.display = sounds.length === 0 ? '' : 'none';
+      updateKeyedList(
+        soundList,
+        sounds,
+        (sound) => sound.uri,
+        (sound) => this.createSoundItem(sound, statusEl, objectUrls),
+        soundItems
+      );
+    };
+    renderSounds(Store.select(selectSounds));
+    this.watch(selectSounds, renderSounds);
+
+    const presetsButton = createButton('Back to Presets', 'secondary', () => {
+      this.showPresetsList();
+    });
+    container.appendChild(presetsButton);
 
     // Back button
     const backButton = createButton('Back to Menu', 'secondary', () => {
@@ -320,4 +1295,1588 @@ export class NavigationManager {
     });
     container.appendChild(backButton);
   }
+
+  /**
+   * Helper to build one row of the sounds list
+   */
+  private createSoundItem(
+    sound: SoundData,
+    statusEl: HTMLElement,
+    objectUrls: string[]
+  ): HTMLElement {
+    const soundItem = document.createElement('div');
+    soundItem.className = 'preset-item';
+
+    const soundName = document.createElement('strong');
+    soundName.textContent = sound.name;
+    soundItem.appendChild(soundName);
+
+    const details = document.createElement('span');
+    details.textContent = [
+      '',
+      isGuidedSound(sound) ? 'Guided meditation' : 'Bell',
+      ...(sound.duration !== null ? [formatTime(sound.duration)] : []),
+      `${(sound.audio.size / 1_000_000).toFixed(1)} MB`,
+    ].join(' - ');
+    soundItem.appendChild(details);
+
+    const actions = document.createElement('div');
+    actions.className = 'item-actions';
+    const soundType = getCustomSoundType(sound);
+    const ref = { uri: sound.uri, cid: sound.cid };
+
+    if (isGuidedSound(sound)) {
+      // Guided recordings are long, so they get player controls
+      const listenButton = createButton('Listen', 'secondary', async () => {
+        listenButton.disabled = true;
+        try {
+          const url = URL.createObjectURL(await loadRecording(ref));
+          objectUrls.push(url);
+          const player = document.createElement('audio');
+          player.controls = true;
+          player.src = url;
+          listenButton.replaceWith(player);
+          player.play().catch(() => undefined);
+        } catch (error) {
+          listenButton.disabled = false;
+          const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+          this.showViewStatus(
+            statusEl,
+            `Failed to load sound: ${errorMsg}`,
+            true
+          );
+        }
+      });
+      actions.appendChild(listenButton);
+    } else {
+      actions.appendChild(
+        createButton('Preview', 'secondary', () => {
+          this.previewSound(soundType, []);
+        })
+      );
+    }
+
+    actions.appendChild(
+      createButton('Delete', 'secondary', async () => {
+        const usedBy = Store.select(selectPresets).filter(
+          (preset) =>
+            preset.guidedAudio?.uri === sound.uri ||
+            preset.customSounds.some(
+              (customSound) => customSound.sound.uri === sound.uri
+            )
+        ).length;
+        const warning =
+          usedBy > 0
+            ? ` ${usedBy} preset${
+                usedBy === 1 ? ' uses' : 's use'
+              } it and will play a bell instead.`
+            : '';
+        if (!window.confirm(`Delete sound "${sound.name}"?${warning}`)) return;
+
+        try {
+          await deleteSound(sound);
+        } catch (error) {
+          const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+          this.showViewStatus(
+            statusEl,
+            `Failed to delete sound: ${errorMsg}`,
+            true
+          );
+        }
+      })
+    );
+    soundItem.appendChild(actions);
+
+    return soundItem;
+  }
+
+  /**
+   * Show another user's presets, looked up by handle or DID, with an option
+   * to copy each one into the signed-in user's presets
+   * @param identifier - Handle or DID to look up right away
+   */
+  showBrowsePresets(identifier: string | null = null): void {
+    this.currentView = 'browsePresets';
+    this.activateView('browsePresetsView', this.browseRoute(identifier));
+
+    const container = document.getElementById('browsePresetsView');
+    if (!container) return;
+
+    clearContainer(container);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = 'Browse Presets';
+    container.appendChild(title);
+
+    const description = document.createElement('p');
+    description.textContent =
+      "Presets are public. Enter someone's handle to see their presets " +
+      'and copy the ones you like.';
+    container.appendChild(description);
+
+    // Lookup form
+    const form = document.createElement('form');
+    form.className = 'meditation-form';
+    const identifierLabel = document.createElement('label');
+    identifierLabel.textContent = 'Handle or DID:';
+    const identifierInput = document.createElement('input');
+    identifierInput.type = 'text';
+    identifierInput.placeholder = 'teacher.bsky.social';
+    identifierInput.autocapitalize = 'none';
+    identifierInput.value = identifier ?? '';
+    identifierLabel.appendChild(identifierInput);
+    form.appendChild(identifierLabel);
+
+    const lookupButton = document.createElement('button');
+    lookupButton.type = 'submit';
+    lookupButton.textContent = 'Show Presets';
+    form.appendChild(lookupButton);
+    container.appendChild(form);
+
+    // Status line for progress and errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    container.appendChild(statusEl);
+
+    const presetList = document.createElement('div');
+    presetList.className = 'preset-list';
+    container.appendChild(presetList);
+
+    // Copy buttons by source URI, updated as the user's presets change
+    const copyButtons = new Map<string, HTMLButtonElement>();
+    const updateCopyButtons = (presets: readonly PresetData[]) => {
+      const copied = new Set(
+        presets.flatMap((preset) =>
+          preset.copiedFrom ? [preset.copiedFrom.uri] : []
+        )
+      );
+      copyButtons.forEach((button, uri) => {
+        button.disabled = copied.has(uri);
+        button.textContent = copied.has(uri) ? 'Copied' : 'Copy to My Presets';
+      });
+    };
+    this.watch(selectPresets, updateCopyButtons);
+
+    // Cancel a lookup in progress when a new one starts or the view is left
+    let controller: AbortController | null = null;
+    this.onLeaveView(() => controller?.abort());
+
+    const lookup = async (input: string) => {
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
+
+      clearContainer(presetList);
+      copyButtons.clear();
+      this.router.setRoute(this.browseRoute(input.trim() || null), {
+        replace: true,
+      });
+      this.showViewStatus(statusEl, 'Looking up account...');
+
+      try {
+        const repo = await resolveRepo(input, current.signal);
+        current.signal.throwIfAborted();
+        const name = repo.handle ? `@${repo.handle}` : repo.did;
+        this.showViewStatus(statusEl, `Reading presets from ${name}...`);
+
+        const presets = await getAllRepoPresets(repo, {
+          signal: current.signal,
+        });
+        current.signal.throwIfAborted();
+
+        if (presets.length === 0) {
+          this.showViewStatus(statusEl, `${name} has no presets.`);
+          return;
+        }
+
+        const isOwnRepo = repo.did === session?.sub;
+        this.showViewStatus(
+          statusEl,
+          isOwnRepo
+            ? 'These are your own presets.'
+            : `${presets.length} preset(s) from ${name}.`
+        );
+        presets.forEach((preset) => {
+          presetList.appendChild(
+            this.createRemotePresetItem(
+              preset,
+              isOwnRepo,
+              statusEl,
+              copyButtons
+            )
+          );
+        });
+        updateCopyButtons(Store.select(selectPresets));
+      } catch (error) {
+        if (current.signal.aborted) return;
+
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(
+          statusEl,
+          `Could not load presets: ${errorMsg}`,
+          true
+        );
+      }
+    };
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      lookup(identifierInput.value);
+    });
+
+    // Back button
+    const backButton = createButton('Back to Presets', 'secondary', () => {
+      this.showPresetsList();
+    });
+    container.appendChild(backButton);
+
+    if (identifier) {
+      lookup(identifier);
+    } else {
+      identifierInput.focus();
+    }
+  }
+
+  // List a preset's segments in order, if it has any
+  private appendSegmentSummary(item: HTMLElement, preset: PresetData): void {
+    if (preset.segments.length === 0) return;
+
+    const summary = document.createElement('div');
+    summary.className = 'preset-segments';
+    summary.textContent = preset.segments
+      .map((segment) => `${segment.name} ${formatTime(segment.duration)}`)
+      .join(' → ');
+    item.appendChild(summary);
+  }
+
+  /**
+   * Helper to build one row of another user's presets, with the times of
+   * its bells and a button to copy it
+   */
+  private createRemotePresetItem(
+    preset: PresetData,
+    isOwnPreset: boolean,
+    statusEl: HTMLElement,
+    copyButtons: Map<string, HTMLButtonElement>
+  ): HTMLElement {
+    const presetItem = document.createElement('div');
+    presetItem.className = 'preset-item';
+
+    const presetName = document.createElement('strong');
+    presetName.textContent = preset.name;
+
+    const presetDuration = document.createElement('span');
+    presetDuration.textContent = ` - ${formatTime(preset.duration)}`;
+
+    presetItem.appendChild(presetName);
+    presetItem.appendChild(presetDuration);
+
+    this.appendSegmentSummary(presetItem, preset);
+
+    // Bells, in the order they play. Only the user's own uploads are known
+    // by name.
+    const choices = getSoundChoices(Store.select(selectSounds));
+    const bells = document.createElement('div');
+    bells.className = 'preset-bells';
+    const bellDescriptions = [
+      ...getOneOffIntervals(
+        preset.soundIntervals,
+        preset.recurringSounds,
+        preset.duration,
+        preset.segments
+      )
+        .sort((a, b) => a.time - b.time)
+        .map(
+          (interval) =>
+            `${formatTime(interval.time)} ${getSoundLabel(
+              interval.soundType,
+              choices
+            )}`
+        ),
+      ...preset.recurringSounds.map((rule) =>
+        describeRecurringSound(rule, getSoundLabel(rule.soundType, choices))
+      ),
+    ];
+    bells.textContent =
+      bellDescriptions.length > 0 ? bellDescriptions.join(', ') : 'No bells';
+    presetItem.appendChild(bells);
+
+    const actions = document.createElement('div');
+    actions.className = 'item-actions';
+    if (!isOwnPreset) {
+      const copyButton = createButton(
+        'Copy to My Presets',
+        'primary',
+        async () => {
+          copyButton.disabled = true;
+          try {
+            const copy = await copyPreset(preset);
+            this.showViewStatus(statusEl, `Copied "${copy.name}".`);
+          } catch (error) {
+            copyButton.disabled = false;
+            const errorMsg =
+              error instanceof Error ? error.message : 'Unknown error';
+            this.showViewStatus(
+              statusEl,
+              `Failed to copy preset: ${errorMsg}`,
+              true
+            );
+          }
+        }
+      );
+      copyButtons.set(preset.uri, copyButton);
+      actions.appendChild(copyButton);
+    }
+    presetItem.appendChild(actions);
+
+    return presetItem;
+  }
+
+  /**
+   * Show the preset editor
+   * @param preset - Preset to edit. Without a uri, a new preset is created
+   * from its fields. Omit to start from a blank preset.
+   */
+  showPresetEditor(preset?: PresetData): void {
+    this.currentView = 'presetEditor';
+    this.activateView(
+      'presetEditorView',
+      preset?.uri ? `/presets/${getRecordKey(preset.uri)}` : '/presets/new'
+    );
+
+    const container = document.getElementById('presetEditorView');
+    if (!container) return;
+
+    clearContainer(container);
+
+    const isEditing = !!preset?.uri;
+    const sounds = Store.select(selectSounds);
+    const soundChoices = getSoundChoices(sounds);
+    const customSounds = preset?.customSounds ?? [];
+    const previewSound = (soundType: string) =>
+      this.previewSound(soundType, customSounds);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = isEditing ? 'Edit Preset' : 'New Preset';
+    container.appendChild(title);
+
+    // Create form
+    const form = document.createElement('form');
+    form.className = 'meditation-form';
+
+    // Name input
+    const nameLabel = document.createElement('label');
+    nameLabel.textContent = 'Name:';
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.maxLength = 100;
+    nameInput.required = true;
+    nameInput.value = preset?.name ?? '';
+    nameLabel.appendChild(nameInput);
+    form.appendChild(nameLabel);
+
+    // Duration input
+    const durationLabel = document.createElement('label');
+    durationLabel.textContent = 'Duration (minutes):';
+    const durationInput = document.createElement('input');
+    durationInput.type = 'number';
+    durationInput.min = '1';
+    durationInput.value = preset ? (preset.duration / 60).toString() : '10';
+    durationInput.required = true;
+    durationLabel.appendChild(durationInput);
+    form.appendChild(durationLabel);
+
+    // Segments, whose durations add up to the preset's duration
+    const segmentsLabel = document.createElement('label');
+    segmentsLabel.textContent = 'Segments:';
+    form.appendChild(segmentsLabel);
+
+    const segmentList = new SegmentList(
+      preset?.segments ?? [],
+      (segments) => {
+        if (segments.length > 0) {
+          durationInput.value = (getSegmentsDuration(segments) / 60).toString();
+        }
+        durationInput.disabled = segments.length > 0;
+        timeline.setDuration(getDuration() || 0);
+      },
+      previewSound,
+      soundChoices
+    );
+    durationInput.disabled = (preset?.segments.length ?? 0) > 0;
+    form.appendChild(segmentList.element);
+
+    const getDuration = (): number => {
+      const segments = segmentList.getSegments();
+      return segments.length > 0
+        ? getSegmentsDuration(segments)
+        : Math.round(parseFloat(durationInput.value) * 60); // Convert to seconds
+    };
+
+    // Bell timeline
+    const timelineLabel = document.createElement('label');
+    timelineLabel.textContent = 'Bells:';
+    form.appendChild(timelineLabel);
+
+    // Bells produced by repeating rules are edited below, not on the timeline
+    const timeline = new IntervalTimeline(
+      getDuration() || 0,
+      preset
+        ? getOneOffIntervals(
+            preset.soundIntervals,
+            preset.recurringSounds,
+            preset.duration,
+            preset.segments
+          )
+        : [],
+      previewSound,
+      soundChoices
+    );
+    timeline.setRecurringSounds(preset?.recurringSounds ?? []);
+    durationInput.addEventListener('input', () => {
+      timeline.setDuration(getDuration() || 0);
+    });
+    form.appendChild(timeline.element);
+
+    // Repeating bells
+    const recurringLabel = document.createElement('label');
+    recurringLabel.textContent = 'Repeating bells:';
+    form.appendChild(recurringLabel);
+
+    const recurringList = new RecurringSoundList(
+      preset?.recurringSounds ?? [],
+      (rules) => timeline.setRecurringSounds(rules),
+      previewSound,
+      soundChoices
+    );
+    form.appendChild(recurringList.element);
+
+    // Guided recording played from the start of the session. A copied
+    // preset may reference another user's recording, which is kept.
+    const guidedLabel = document.createElement('label');
+    guidedLabel.textContent = 'Guided audio:';
+    const guidedSelect = document.createElement('select');
+    const guidedOptions: { ref: StrongRef | null; label: string }[] = [
+      { ref: null, label: 'None' },
+      ...sounds.filter(isGuidedSound).map((sound) => ({
+        ref: { uri: sound.uri, cid: sound.cid },
+        label: sound.name,
+      })),
+    ];
+    const existingGuided = preset?.guidedAudio ?? null;
+    if (
+      existingGuided &&
+      !guidedOptions.some((option) => option.ref?.uri === existingGuided.uri)
+    ) {
+      guidedOptions.push({
+        ref: existingGuided,
+        label: 'Recording from the original preset',
+      });
+    }
+    guidedOptions.forEach((guidedOption, index) => {
+      const option = document.createElement('option');
+      option.value = index.toString();
+      option.textContent = guidedOption.label;
+      option.selected = guidedOption.ref?.uri === existingGuided?.uri;
+      guidedSelect.appendChild(option);
+    });
+    guidedLabel.appendChild(guidedSelect);
+    form.appendChild(guidedLabel);
+
+    // Status line for validation and save errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    form.appendChild(statusEl);
+
+    // Button container
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+
+    const saveButton = createButton('Save Preset', 'primary', async () => {
+      const name = nameInput.value.trim();
+      const duration = getDuration();
+      const soundIntervals = timeline.getIntervals();
+      const recurringSounds = recurringList.getRules();
+      const segments = segmentList.getSegments();
+      const audio = getPresetAudio(
+        [
+          ...soundIntervals.map((interval) => interval.soundType),
+          ...recurringSounds.map((rule) => rule.soundType),
+          ...segments.flatMap((segment) =>
+            segment.transitionSound ? [segment.transitionSound] : []
+          ),
+        ],
+        customSounds,
+        guidedOptions[parseInt(guidedSelect.value)]?.ref ?? null
+      );
+
+      try {
+        validatePreset(
+          name,
+          duration,
+          soundIntervals,
+          recurringSounds,
+          segments,
+          audio
+        );
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(statusEl, errorMsg, true);
+        return;
+      }
+
+      saveButton.disabled = true;
+      this.showViewStatus(statusEl, 'Saving preset...');
+
+      try {
+        if (isEditing) {
+          await updatePreset(
+            preset!,
+            name,
+            duration,
+            soundIntervals,
+            recurringSounds,
+            segments,
+            audio
+          );
+        } else {
+          await createPreset(
+            name,
+            duration,
+            soundIntervals,
+            recurringSounds,
+            segments,
+            audio
+          );
+        }
+
+        this.showPresetsList();
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(
+          statusEl,
+          `Failed to save preset: ${errorMsg}`,
+          true
+        );
+        saveButton.disabled = false;
+      }
+    });
+
+    const cancelButton = createButton('Cancel', 'secondary', () => {
+      this.showPresetsList();
+    });
+
+    buttonContainer.appendChild(saveButton);
+    buttonContainer.appendChild(cancelButton);
+    form.appendChild(buttonContainer);
+
+    container.appendChild(form);
+  }
+
+  /**
+   * Plays a sound from the preset editor, loading an uploaded sound the
+   * first time it is previewed
+   * @param soundType - Sound type to play
+   * @param customSounds - Bindings of the preset being edited
+   */
+  private async previewSound(
+    soundType: string,
+    customSounds: CustomSound[]
+  ): Promise<void> {
+    const ref = findCustomSound(soundType, customSounds);
+    if (ref && !this.soundPlayer.hasSound(ref)) {
+      this.soundPlayer.unlock();
+      try {
+        await this.soundPlayer.loadSound(ref, await loadRecording(ref));
+      } catch (error) {
+        // The player falls back to a bell
+        console.error('Failed to load sound:', error);
+      }
+    }
+    this.soundPlayer.bindSound(soundType, ref);
+    this.soundPlayer.play(soundType);
+  }
+
+  /**
+   * Helper to show a message in a view's status element
+   */
+  private showViewStatus(
+    statusEl: HTMLElement,
+    message: string,
+    isError: boolean = false
+  ): void {
+    statusEl.textContent = message;
+    statusEl.style.display = 'block';
+    statusEl.classList.toggle('error', isError);
+  }
+
+  /**
+   * Show the list of past meditation sessions, most recent first.
+   * The list follows the Store, so rows are added, updated and removed in
+   * place as sessions change.
+   * @param visibleCount - Number of sessions to show before "Load Older Sessions"
+   */
+  showPastSessions(visibleCount: number = SESSIONS_PAGE_SIZE): void {
+    this.currentView = 'sessions';
+    this.activateView('sessionsView', '/sessions');
+
+    const container = document.getElementById('sessionsView');
+    if (!container) return;
+
+    clearContainer(container);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = 'Past Meditation Sessions';
+    container.appendChild(title);
+
+    // Status line for action errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    container.appendChild(statusEl);
+
+    // Report sessions skipped because they failed lexicon validation
+    const renderInvalidCount = (invalidRecords: readonly InvalidRecord[]) => {
+      const invalidCount = invalidRecords.filter(
+        (record) => record.collection === 'place.starting.meditationSession'
+      ).length;
+      if (invalidCount > 0) {
+        this.showViewStatus(
+          statusEl,
+          `${invalidCount} session record(s) could not be read and are not shown.`,
+          true
+        );
+      }
+    };
+    renderInvalidCount(Store.select(selectInvalidRecords));
+    this.watch(selectInvalidRecords, renderInvalidCount);
+
+    // Shown when there are no sessions
+    const noData = document.createElement('p');
+    noData.className = 'no-data';
+    noData.textContent = 'No meditation sessions yet. Start your first one!';
+    container.appendChild(noData);
+
+    // Create session list
+    const sessionList = document.createElement('div');
+    sessionList.className = 'session-list';
+    container.appendChild(sessionList);
+
+    const loadMoreButton = createButton(
+      'Load Older Sessions',
+      'secondary',
+      () => {
+        shownCount += SESSIONS_PAGE_SIZE;
+        renderSessions(Store.select(selectMeditationSessions));
+      }
+    );
+    container.appendChild(loadMoreButton);
+
+    let shownCount = Math.max(visibleCount, SESSIONS_PAGE_SIZE);
+    const sessionItems: KeyedElements<MeditationSessionData> = new Map();
+
+    // Show the first shownCount sessions, rebuilding only rows that changed
+    const renderSessions = (sessions: readonly MeditationSessionData[]) => {
+      noData.style.display = sessions.length === 0 ? '' : 'none';
+      updateKeyedList(
+        sessionList,
+        sessions.slice(0, shownCount),
+        (session) => session.uri,
+        (session) => this.createSessionItem(session, statusEl),
+        sessionItems
+      );
+
+      const remaining = Math.max(0, sessions.length - shownCount);
+      loadMoreButton.style.display = remaining > 0 ? '' : 'none';
+      loadMoreButton.textContent = `Load Older Sessions (${remaining} more)`;
+    };
+    renderSessions(Store.select(selectMeditationSessions));
+    this.watch(selectMeditationSessions, renderSessions);
+
+    // Rows show preset names, so rebuild them all when presets change
+    this.watch(selectPresets, () => {
+      sessionItems.forEach(({ element }) => element.remove());
+      sessionItems.clear();
+      renderSessions(Store.select(selectMeditationSessions));
+    });
+
+    // Back button
+    const backButton = createButton('Back to Menu', 'secondary', () => {
+      this.showMainMenu();
+    });
+    container.appendChild(backButton);
+  }
+
+  /**
+   * Show statistics computed from the session history in the Store
+   */
+  showStats(): void {
+    this.currentView = 'stats';
+    this.activateView('statsView', '/stats');
+
+    const container = document.getElementById('statsView');
+    if (!container) return;
+
+    clearContainer(container);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = 'Statistics';
+    container.appendChild(title);
+
+    // Stats are recomputed whenever sessions change
+    const content = document.createElement('div');
+    container.appendChild(content);
+    this.renderStats(content, Store.select(selectMeditationSessions));
+    this.watch(selectMeditationSessions, (sessions) => {
+      this.renderStats(content, sessions);
+    });
+
+    // Back button
+    const backButton = createButton('Back to Menu', 'secondary', () => {
+      this.showMainMenu();
+    });
+    container.appendChild(backButton);
+  }
+
+  /**
+   * Show recent sessions of the accounts the user follows. The cached first
+   * page is shown while the feed is rebuilt from the followed accounts.
+   */
+  showFeed(): void {
+    this.currentView = 'feed';
+    this.activateView('feedView', '/feed');
+
+    const container = document.getElementById('feedView');
+    if (!container || !session) return;
+
+    clearContainer(container);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = "Friends' Activity";
+    container.appendChild(title);
+
+    // Status line for progress and errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    container.appendChild(statusEl);
+
+    // Shown when no followed account has shared sessions
+    const noData = document.createElement('p');
+    noData.className = 'no-data';
+    noData.textContent =
+      'No activity yet. Sessions from people you follow will show up here.';
+    noData.style.display = 'none';
+    container.appendChild(noData);
+
+    const feedList = document.createElement('div');
+    feedList.className = 'feed-list';
+    container.appendChild(feedList);
+
+    const loadMoreButton = createButton('Load More', 'secondary', () =>
+      loadPage()
+    );
+    loadMoreButton.style.display = 'none';
+    container.appendChild(loadMoreButton);
+
+    // Back button
+    const backButton = createButton('Back to Menu', 'secondary', () => {
+      this.showMainMenu();
+    });
+    container.appendChild(backButton);
+
+    // Stop reading other accounts if the user leaves the view
+    const controller = new AbortController();
+    this.onLeaveView(() => controller.abort());
+
+    const did = session.sub;
+    const feed = new FriendsFeed(did);
+    let showingCache = false;
+
+    const renderItems = (items: FeedItem[]) => {
+      items.forEach((item) => feedList.appendChild(this.createFeedItem(item)));
+    };
+
+    const loadPage = async () => {
+      loadMoreButton.disabled = true;
+      this.showViewStatus(statusEl, 'Loading activity...');
+
+      try {
+        const items = await feed.loadPage(controller.signal);
+
+        // Replace the cached page once fresh items arrive
+        if (showingCache) {
+          clearContainer(feedList);
+          showingCache = false;
+        }
+        renderItems(items);
+
+        statusEl.style.display = 'none';
+        noData.style.display = feedList.childElementCount === 0 ? '' : 'none';
+        loadMoreButton.style.display = feed.hasMore() ? '' : 'none';
+      } catch (error) {
+        if (controller.signal.aborted) return;
+
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(
+          statusEl,
+          `Failed to load activity: ${errorMsg}`,
+          true
+        );
+      } finally {
+        loadMoreButton.disabled = false;
+      }
+    };
+
+    loadCachedFeed(did)
+      .catch(() => [])
+      .then((cached) => {
+        // The first page may have arrived while the cache was read
+        if (controller.signal.aborted || feedList.childElementCount > 0) {
+          return;
+        }
+        renderItems(cached);
+        showingCache = cached.length > 0;
+      });
+    loadPage();
+  }
+
+  /**
+   * Helper to build one entry of the friends' feed
+   */
+  private createFeedItem({ author, session }: FeedItem): HTMLElement {
+    const feedItem = document.createElement('div');
+    feedItem.className = 'session-item feed-item';
+
+    const avatar = document.createElement('div');
+    avatar.className = 'feed-avatar';
+    if (author.avatar) {
+      const image = document.createElement('img');
+      image.src = author.avatar;
+      image.alt = '';
+      image.loading = 'lazy';
+      avatar.appendChild(image);
+    } else {
+      avatar.textContent = (author.displayName || author.handle)
+        .charAt(0)
+        .toUpperCase();
+    }
+    feedItem.appendChild(avatar);
+
+    const body = document.createElement('div');
+    body.className = 'feed-body';
+
+    const name = document.createElement('div');
+    name.className = 'feed-author';
+    name.textContent = author.displayName
+      ? `${author.displayName} (@${author.handle})`
+      : `@${author.handle}`;
+    body.appendChild(name);
+
+    const summary = document.createElement('div');
+    const durationMinutes = Math.round(session.duration / 60);
+    summary.textContent = `Meditated ${durationMinutes} minutes - ${formatSessionDate(
+      session.createdAt
+    )}`;
+    body.appendChild(summary);
+
+    feedItem.appendChild(body);
+    return feedItem;
+  }
+
+  /**
+   * Show options for downloading every session and preset
+   */
+  showExport(): void {
+    this.currentView = 'export';
+    this.activateView('exportView', '/export');
+
+    const container = document.getElementById('exportView');
+    if (!container) return;
+
+    clearContainer(container);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = 'Export Data';
+    container.appendChild(title);
+
+    const description = document.createElement('p');
+    description.textContent =
+      'Download every session and preset from your account. The JSON ' +
+      'archive keeps all fields and can be imported again; the CSV lists ' +
+      'your sessions for use in a spreadsheet.';
+    container.appendChild(description);
+
+    // Status line for progress and errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    container.appendChild(statusEl);
+
+    // Stop reading records if the user leaves the view
+    const controller = new AbortController();
+    this.onLeaveView(() => controller.abort());
+
+    const runExport = async (format: 'json' | 'csv') => {
+      jsonButton.disabled = true;
+      csvButton.disabled = true;
+
+      try {
+        const data = await fetchExportData({
+          signal: controller.signal,
+          onProgress: (message) => this.showViewStatus(statusEl, message),
+        });
+        const date = new Date().toISOString().slice(0, 10);
+
+        if (format === 'json') {
+          const archive = buildExportArchive(session!.sub, data);
+          downloadFile(
+            `meditation-export-${date}.json`,
+            JSON.stringify(archive, null, 2),
+            'application/json'
+          );
+        } else {
+          downloadFile(
+            `meditation-sessions-${date}.csv`,
+            buildSessionsCsv(data),
+            'text/csv'
+          );
+        }
+
+        const skipped =
+          data.skipped > 0
+            ? ` ${data.skipped} unreadable record(s) were left out.`
+            : '';
+        this.showViewStatus(
+          statusEl,
+          format === 'json'
+            ? `Exported ${data.meditationSessions.length} session(s) and ${data.presets.length} preset(s).${skipped}`
+            : `Exported ${data.meditationSessions.length} session(s).${skipped}`
+        );
+      } catch (error) {
+        if (controller.signal.aborted) return;
+
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(statusEl, `Export failed: ${errorMsg}`, true);
+      } finally {
+        jsonButton.disabled = false;
+        csvButton.disabled = false;
+      }
+    };
+
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+    const jsonButton = createButton('Download JSON Archive', 'primary', () =>
+      runExport('json')
+    );
+    const csvButton = createButton('Download Sessions CSV', 'primary', () =>
+      runExport('csv')
+    );
+    buttonContainer.appendChild(jsonButton);
+    buttonContainer.appendChild(csvButton);
+    container.appendChild(buttonContainer);
+
+    // Back button
+    const backButton = createButton('Back to Menu', 'secondary', () => {
+      this.showMainMenu();
+    });
+    container.appendChild(backButton);
+  }
+
+  /**
+   * Show the import of session history from a CSV file or a JSON archive.
+   * The file is checked against the account first, so the preview can say
+   * how many records are new before anything is written.
+   */
+  showImport(): void {
+    this.currentView = 'import';
+    this.activateView('importView', '/import');
+
+    const container = document.getElementById('importView');
+    if (!container) return;
+
+    clearContainer(container);
+
+    // Create title
+    const title = document.createElement('h2');
+    title.textContent = 'Import History';
+    container.appendChild(title);
+
+    const description = document.createElement('p');
+    description.textContent =
+      'Add sessions from a CSV file with a date and a duration column, or ' +
+      'restore a JSON archive downloaded from Export Data. Records already ' +
+      'in your account are skipped.';
+    container.appendChild(description);
+
+    const form = document.createElement('form');
+    form.className = 'meditation-form';
+    container.appendChild(form);
+
+    // File input
+    const fileLabel = document.createElement('label');
+    fileLabel.textContent = 'File:';
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.csv,.json,text/csv,application/json';
+    fileLabel.appendChild(fileInput);
+    form.appendChild(fileLabel);
+
+    // Column choices, shown for CSV files
+    const mappingContainer = document.createElement('div');
+    mappingContainer.className = 'import-mapping';
+    mappingContainer.style.display = 'none';
+    form.appendChild(mappingContainer);
+
+    // Status line for progress and errors
+    const statusEl = document.createElement('div');
+    statusEl.className = 'status';
+    statusEl.style.display = 'none';
+    form.appendChild(statusEl);
+
+    const issueList = document.createElement('ul');
+    issueList.className = 'import-issues';
+    form.appendChild(issueList);
+
+    // Stop reading or writing records if the user leaves the view
+    const controller = new AbortController();
+    this.onLeaveView(() => controller.abort());
+
+    let fileText: string | null = null;
+    let csvTable: CsvTable | null = null;
+    let mapping: CsvColumnMapping | null = null;
+    let job: ImportJob | null = null;
+
+    const resetPreview = () => {
+      job = null;
+      importButton.disabled = true;
+      importButton.textContent = 'Import';
+      clearContainer(issueList);
+      statusEl.style.display = 'none';
+    };
+
+    const showPlan = (plan: ImportPlan) => {
+      const sessions = plan.items.filter(
+        (item) => item.collection !== PRESET_NSID
+      ).length;
+      const presets = plan.items.length - sessions;
+      const parts = [`${sessions} new session(s)`];
+      if (presets > 0) parts.push(`${presets} new preset(s)`);
+      if (plan.duplicates > 0) {
+        parts.push(`${plan.duplicates} already in your account`);
+      }
+      if (plan.errors.length > 0) {
+        parts.push(`${plan.errors.length} unreadable`);
+      }
+      if (plan.warnings.length > 0) {
+        parts.push(`${plan.warnings.length} with warnings`);
+      }
+      this.showViewStatus(statusEl, `Found ${parts.join(', ')}.`);
+
+      // Unreadable rows first, then rows imported with warnings
+      const issues = [...plan.errors, ...plan.warnings];
+      clearContainer(issueList);
+      issues.slice(0, IMPORT_ISSUES_SHOWN).forEach((issue) => {
+        const item = document.createElement('li');
+        item.textContent = `${issue.source}: ${issue.message}`;
+        issueList.appendChild(item);
+      });
+      if (issues.length > IMPORT_ISSUES_SHOWN) {
+        const more = document.createElement('li');
+        more.textContent = `...and ${issues.length - IMPORT_ISSUES_SHOWN} more`;
+        issueList.appendChild(more);
+      }
+    };
+
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileText = null;
+      csvTable = null;
+      mapping = null;
+      resetPreview();
+      clearContainer(mappingContainer);
+      mappingContainer.style.display = 'none';
+      previewButton.disabled = true;
+      if (!file) return;
+
+      try {
+        fileText = await file.text();
+        if (
+          !/\.json$/i.test(file.name) &&
+          !fileText.trimStart().startsWith('{')
+        ) {
+          csvTable = readCsvTable(fileText);
+          mapping = guessCsvMapping(csvTable.headers);
+          this.renderCsvMapping(
+            mappingContainer,
+            csvTable,
+            mapping,
+            resetPreview
+          );
+          mappingContainer.style.display = '';
+        }
+        previewButton.disabled = false;
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(statusEl, `Cannot read file: ${errorMsg}`, true);
+      }
+    });
+
+    const runPreview = async () => {
+      if (fileText === null) return;
+
+      resetPreview();
+      previewButton.disabled = true;
+
+      try {
+        // Compare with every record in the account, not just the loaded ones
+        const existing = await fetchExportData({
+          signal: controller.signal,
+          onProgress: (message) => this.showViewStatus(statusEl, message),
+        });
+
+        const parsed: ParsedImport =
+          csvTable && mapping
+            ? sessionsFromCsv(csvTable, mapping, existing.presets)
+            : itemsFromArchive(fileText, session!.sub);
+        const plan = planImport(
+          parsed,
+          existing.meditationSessions,
+          existing.presets
+        );
+
+        showPlan(plan);
+        if (plan.items.length > 0) {
+          job = new ImportJob(plan.items);
+          importButton.disabled = false;
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(statusEl, `Preview failed: ${errorMsg}`, true);
+      } finally {
+        previewButton.disabled = false;
+      }
+    };
+
+    const runImport = async () => {
+      const currentJob = job;
+      if (!currentJob) return;
+
+      importButton.disabled = true;
+      previewButton.disabled = true;
+      fileInput.disabled = true;
+
+      try {
+        await currentJob.run(({ completed, total }) => {
+          this.showViewStatus(statusEl, `Imported ${completed} of ${total}...`);
+        }, controller.signal);
+
+        const { total } = currentJob.getProgress();
+        job = null;
+        importButton.textContent = 'Import';
+        this.showViewStatus(statusEl, `Imported ${total} record(s).`);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+
+        // Written batches stay written; the next run continues after them
+        const { completed, total } = currentJob.getProgress();
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.showViewStatus(
+          statusEl,
+          `Import stopped after ${completed} of ${total}: ${errorMsg}`,
+          true
+        );
+        importButton.textContent = 'Resume Import';
+        importButton.disabled = false;
+      } finally {
+        previewButton.disabled = false;
+        fileInput.disabled = false;
+      }
+    };
+
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+    const previewButton = createButton('Preview', 'primary', runPreview);
+    previewButton.disabled = true;
+    const importButton = createButton('Import', 'primary', runImport);
+    importButton.disabled = true;
+    buttonContainer.appendChild(previewButton);
+    buttonContainer.appendChild(importButton);
+    form.appendChild(buttonContainer);
+
+    // Back button
+    const backButton = createButton('Back to Menu', 'secondary', () => {
+      this.showMainMenu();
+    });
+    container.appendChild(backButton);
+  }
+
+  /**
+   * Helper to render the column choices for a CSV import. Changes are
+   * written to the mapping in place.
+   */
+  private renderCsvMapping(
+    container: HTMLElement,
+    table: CsvTable,
+    mapping: CsvColumnMapping,
+    onChange: () => void
+  ): void {
+    const addSelect = (
+      labelText: string,
+      options: [string, string][],
+      value: string,
+      apply: (value: string) => void
+    ) => {
+      const label = document.createElement('label');
+      label.textContent = labelText;
+      const select = document.createElement('select');
+      options.forEach(([optionValue, optionLabel]) => {
+        const option = document.createElement('option');
+        option.value = optionValue;
+        option.textContent = optionLabel;
+        select.appendChild(option);
+      });
+      select.value = value;
+      select.addEventListener('change', () => {
+        apply(select.value);
+        onChange();
+      });
+      label.appendChild(select);
+      container.appendChild(label);
+    };
+
+    const columns: [string, string][] = table.headers.map((header, index) => [
+      index.toString(),
+      header || `Column ${index + 1}`,
+    ]);
+    const optionalColumns: [string, string][] = [['', '(none)'], ...columns];
+    const toColumn = (value: string) => (value === '' ? null : Number(value));
+
+    addSelect('Date column:', columns, mapping.date.toString(), (value) => {
+      mapping.date = Number(value);
+    });
+    addSelect(
+      'Duration column:',
+      columns,
+      mapping.duration.toString(),
+      (value) => {
+        mapping.duration = Number(value);
+      }
+    );
+    addSelect(
+      'Duration unit:',
+      [
+        ['minutes', 'Minutes'],
+        ['seconds', 'Seconds'],
+      ],
+      mapping.durationUnit,
+      (value) => {
+        mapping.durationUnit = value as CsvColumnMapping['durationUnit'];
+      }
+    );
+    addSelect(
+      'Notes column:',
+      optionalColumns,
+      mapping.notes?.toString() ?? '',
+      (value) => {
+        mapping.notes = toColumn(value);
+      }
+    );
+    addSelect(
+      'Preset column:',
+      optionalColumns,
+      mapping.preset?.toString() ?? '',
+      (value) => {
+        mapping.preset = toColumn(value);
+      }
+    );
+
+    const hint = document.createElement('p');
+    hint.className = 'import-hint';
+    hint.textContent = `${table.rows.length} row(s). Durations may also be written as mm:ss.`;
+    container.appendChild(hint);
+  }
+
+  /**
+   * Helper to render the stat cards and charts for a list of sessions
+   */
+  private renderStats(
+    container: HTMLElement,
+    sessions: readonly MeditationSessionData[]
+  ): void {
+    clearContainer(container);
+
+    const stats = computeStats(sessions);
+
+    const grid = document.createElement('div');
+    grid.className = 'stats-grid';
+    const cards: [string, string][] = [
+      ['Current streak', `${stats.currentStreak} days`],
+      ['Longest streak', `${stats.longestStreak} days`],
+      ['Total time', `${stats.totalMinutes} min`],
+      ['Average session', `${stats.averageMinutes} min`],
+      ['Sessions per week', stats.sessionsPerWeek.toString()],
+      ['Total sessions', stats.totalSessions.toString()],
+    ];
+    cards.forEach(([label, value]) => {
+      const card = document.createElement('div');
+      card.className = 'stat-card';
+
+      const valueEl = document.createElement('div');
+      valueEl.className = 'stat-value';
+      valueEl.textContent = value;
+
+      const labelEl = document.createElement('div');
+      labelEl.className = 'stat-label';
+      labelEl.textContent = label;
+
+      card.appendChild(valueEl);
+      card.appendChild(labelEl);
+      grid.appendChild(card);
+    });
+    container.appendChild(grid);
+
+    // Weekly chart
+    const weeklyTitle = document.createElement('h3');
+    weeklyTitle.textContent = 'Minutes per week';
+    container.appendChild(weeklyTitle);
+    container.appendChild(
+      createBarChart(
+        stats.weekly.map((week) => ({
+          label: week.label,
+          value: week.minutes,
+        })),
+        'min'
+      )
+    );
+
+    // Monthly chart
+    const monthlyTitle = document.createElement('h3');
+    monthlyTitle.textContent = 'Minutes per month';
+    container.appendChild(monthlyTitle);
+    container.appendChild(
+      createBarChart(
+        stats.monthly.map((month) => ({
+          label: month.label,
+          value: month.minutes,
+        })),
+        'min'
+      )
+    );
+  }
+
+  /**
+   * Helper to find a preset in the Store by the record key in its URI
+   */
+  private findPresetByRecordKey(rkey: string): PresetData | undefined {
+    return Store.select(selectPresets).find(
+      (preset) => getRecordKey(preset.uri) === rkey
+    );
+  }
+
+  /**
+   * Helper to find a preset in the Store by its URI
+   */
+  private findPresetByUri(uri: string): PresetData | undefined {
+    return Store.select(selectPresetByUri(uri));
+  }
+
+  /**
+   * Helper to build the new meditation route with a preset selected
+   */
+  private meditateRoute(preset: PresetData): string {
+    return `/meditate?${new URLSearchParams({
+      preset: getRecordKey(preset.uri),
+    })}`;
+  }
+
+  /**
+   * Helper to build the route of the browse view for an account
+   */
+  private browseRoute(identifier: string | null): string {
+    return identifier
+      ? `/presets/browse?${new URLSearchParams({ repo: identifier })}`
+      : '/presets/browse';
+  }
+
+  /**
+   * Helper to describe the preset a session used, or null if it used none.
+   * Older sessions only have a presetId URI; newer ones have a URI and CID,
+   * which tells whether the preset has been edited since.
+   */
+  private describeSessionPreset(session: MeditationSessionData): string | null {
+    const presetUri = session.preset?.uri ?? session.presetId;
+    if (!presetUri) return null;
+
+    const preset = this.findPresetByUri(presetUri);
+    if (!preset) return 'Preset: (deleted preset)';
+
+    const edited = session.preset && session.preset.cid !== preset.cid;
+    return `Preset: ${preset.name}${edited ? ' (edited since)' : ''}`;
+  }
+
+  /**
+   * Helper to build one row of the past sessions list
+   */
+  private createSessionItem(
+    session: MeditationSessionData,
+    statusEl: HTMLElement
+  ): HTMLElement {
+    const sessionItem = document.createElement('div');
+    sessionItem.className = 'session-item';
+
+    const formattedDate = formatSessionDate(session.createdAt);
+    const durationMinutes = Math.round(session.duration / 60);
+
+    const summary = document.createElement('div');
+    summary.textContent = `${formattedDate} - ${durationMinutes} minutes`;
+    sessionItem.appendChild(summary);
+
+    const presetName = this.describeSessionPreset(session);
+    if (presetName) {
+      const presetEl = document.createElement('div');
+      presetEl.className = 'session-preset';
+      presetEl.textContent = presetName;
+      sessionItem.appendChild(presetEl);
+    }
+
+    if (session.notes) {
+      const notes = document.createElement('div');
+      notes.className = 'session-notes';
+      notes.textContent = session.notes;
+      sessionItem.appendChild(notes);
+    }
+
+    const isShared = isSessionShared(session);
+    if (!isShared) {
+      const hidden = document.createElement('div');
+      hidden.className = 'session-visibility';
+      hidden.textContent = "Hidden from friends' feeds";
+      sessionItem.appendChild(hidden);
+    }
+
+    // Queued sessions have no CID yet, so they cannot be edited or deleted
+    if (session.pendingSync) {
+      const pending = document.createElement('div');
+      pending.className = 'pending-sync';
+      pending.textContent = session.syncError
+        ? `Could not sync: ${session.syncError}`
+        : 'Pending sync';
+      sessionItem.appendChild(pending);
+
+      // Sessions the PDS refused are never retried; only discarding is left
+      if (session.syncError) {
+        const actions = document.createElement('div');
+        actions.className = 'item-actions';
+        actions.appendChild(
+          createButton('Discard', 'secondary', async () => {
+            if (!window.confirm(`Discard the session from ${formattedDate}?`)) {
+              return;
+            }
+
+            try {
+              await discardQueuedSession(session);
+            } catch (error) {
+              const errorMsg =
+                error instanceof Error ? error.message : 'Unknown error';
+              this.showViewStatus(
+                statusEl,
+                `Failed to discard session: ${errorMsg}`,
+                true
+              );
+            }
+          })
+        );
+        sessionItem.appendChild(actions);
+      }
+      return sessionItem;
+    }
+
+    // Per-session actions
+    const actions = document.createElement('div');
+    actions.className = 'item-actions';
+    actions.appendChild(
+      createButton('Edit Notes', 'secondary', async () => {
+        const notes = window.prompt('Session notes:', session.notes ?? '');
+        if (notes === null) return;
+
+        try {
+          await updateMeditationSession(session, {
+            notes: notes.trim() || null,
+          });
+        } catch (error) {
+          const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+          this.showViewStatus(
+            statusEl,
+            `Failed to update session: ${errorMsg}`,
+            true
+          );
+        }
+      })
+    );
+    actions.appendChild(
+      createButton(
+        isShared ? 'Hide from Feeds' : 'Show in Feeds',
+        'secondary',
+        async () => {
+          try {
+            await updateMeditationSession(session, {
+              visibility: isShared ? 'private' : null,
+            });
+          } catch (error) {
+            const errorMsg =
+              error instanceof Error ? error.message : 'Unknown error';
+            this.showViewStatus(
+              statusEl,
+              `Failed to update session: ${errorMsg}`,
+              true
+            );
+          }
+        }
+      )
+    );
+    actions.appendChild(
+      createButton('Delete', 'secondary', async () => {
+        if (!window.confirm(`Delete the session from ${formattedDate}?`)) {
+          return;
+        }
+
+        try {
+          await deleteMeditationSession(session);
+        } catch (error) {
+          const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+          this.showViewStatus(
+            statusEl,
+            `Failed to delete session: ${errorMsg}`,
+            true
+          );
+        }
+      })
+    );
+    sessionItem.appendChild(actions);
+
+    return sessionItem;
+  }
 }
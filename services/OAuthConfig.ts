@@ -0,0 +1,124 @@
+/**
+ * OAuth client configuration.
+ * A hosted deployment sets VITE_PUBLIC_URL at build time; its client_id is
+ * the client-metadata.json generated next to index.html. Without it the app
+ * runs as a loopback client, which only works from a developer's machine.
+ * This module is also imported by vite.config.ts to generate the metadata
+ * file, so the scopes requested at sign-in and the ones the client declares
+ * cannot drift apart.
+ */
+
+import type { OAuthClientMetadataInput } from '@atproto/oauth-types';
+
+export const CLIENT_NAME = 'Really Simple Meditation';
+export const CLIENT_METADATA_FILE = 'client-metadata.json';
+export const DEFAULT_HANDLE_RESOLVER = 'https://bsky.social';
+const LOOPBACK_DEFAULT_PORT = '8080';
+
+/**
+ * Permissions requested at sign-in: read and write access to this app's
+ * own collections, uploading audio files for custom sounds, creating
+ * (never editing or deleting) Bluesky posts, and the AppView methods the
+ * user info panel and the friends' feed need.
+ * Extend this list when a feature needs another permission.
+ */
+export const OAUTH_SCOPES = [
+  'atproto',
+  'repo:place.starting.meditationSession',
+  'repo:place.starting.preset',
+  'repo:place.starting.sound',
+  'blob:audio/*',
+  'repo:app.bsky.feed.post?action=create',
+  'rpc:app.bsky.actor.getProfile?aud=*',
+  'rpc:app.bsky.graph.getFollows?aud=*',
+];
+
+export const OAUTH_SCOPE = OAUTH_SCOPES.join(' ');
+
+export type OAuthClientConfig = (
+  | {
+      mode: 'hosted';
+      clientMetadata: OAuthClientMetadataInput;
+    }
+  | {
+      mode: 'loopback';
+      clientId: string;
+    }
+) & {
+  handleResolver: string;
+  // PLC directory used to resolve did:plc identities, if not the default
+  plcDirectoryUrl?: string;
+};
+
+// Helper: Normalize a public URL to an origin and path ending in '/'
+function normalizePublicUrl(publicUrl: string): string {
+  const url = new URL(publicUrl);
+  url.search = '';
+  url.hash = '';
+  if (!url.pathname.endsWith('/')) url.pathname += '/';
+  return url.href;
+}
+
+/**
+ * Builds the client metadata for a hosted deployment
+ * @param publicUrl - URL the app is served from, e.g. https://example.com/
+ * @returns Metadata to serve as client-metadata.json at that URL
+ */
+export function buildClientMetadata(
+  publicUrl: string
+): OAuthClientMetadataInput {
+  const baseUrl = normalizePublicUrl(publicUrl);
+
+  return {
+    client_id: new URL(CLIENT_METADATA_FILE, baseUrl).href,
+    client_name: CLIENT_NAME,
+    client_uri: baseUrl,
+    redirect_uris: [baseUrl],
+    scope: OAUTH_SCOPE,
+    grant_types: ['authorization_code', 'refresh_token'],
+    response_types: ['code'],
+    token_endpoint_auth_method: 'none',
+    application_type: 'web',
+    dpop_bound_access_tokens: true,
+  };
+}
+
+/**
+ * Builds a loopback client_id for local development. Loopback clients
+ * describe themselves in the client_id, so no metadata file is needed.
+ * @param port - Port of the local dev server
+ */
+export function buildLoopbackClientId(port: string): string {
+  return `http://localhost?${new URLSearchParams([
+    ['redirect_uri', `http://127.0.0.1:${port}`],
+    ['scope', OAUTH_SCOPE],
+  ])}`;
+}
+
+/**
+ * Returns the OAuth client configuration for this build
+ */
+export function getOAuthClientConfig(): OAuthClientConfig {
+  const handleResolver =
+    import.meta.env.VITE_HANDLE_RESOLVER || DEFAULT_HANDLE_RESOLVER;
+  const plcDirectoryUrl = import.meta.env.VITE_PLC_DIRECTORY_URL || undefined;
+  const publicUrl = import.meta.env.VITE_PUBLIC_URL;
+
+  if (publicUrl) {
+    return {
+      mode: 'hosted',
+      handleResolver,
+      plcDirectoryUrl,
+      clientMetadata: buildClientMetadata(publicUrl),
+    };
+  }
+
+  return {
+    mode: 'loopback',
+    handleResolver,
+    plcDirectoryUrl,
+    clientId: buildLoopbackClientId(
+      window.location.port || LOOPBACK_DEFAULT_PORT
+    ),
+  };
+}
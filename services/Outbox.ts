@@ -0,0 +1,315 @@
+/**
+ * Offline outbox for meditation session writes.
+ * Sessions are queued in IndexedDB before they are sent to the PDS and
+ * retried with backoff until the write succeeds. Each queued write has its
+ * own record key, so retrying a write that actually reached the PDS
+ * replaces the same record instead of creating a duplicate. A write that
+ * can never succeed, e.g. one the PDS refuses as invalid, is marked failed
+ * and kept until the user discards it.
+ */
+
+import { TID } from '@atproto/common-web';
+import {
+  SessionVisibility,
+  getRecordKey,
+  isTransientError,
+  prepareMeditationSessionRecord,
+  putMeditationSession,
+} from './API';
+import { OUTBOX_STORE, withStore } from './Database';
+import { MEDITATION_SESSION_NSID, validateRecord } from './Lexicons';
+import Store, { MeditationSessionData } from './Store';
+import {
+  MeditationSessionRecord,
+  StrongRef,
+  toMeditationSessionData,
+} from './LexiconTypes';
+import { session } from '../app';
+
+interface OutboxEntry {
+  rkey: string;
+  did: string;
+  record: MeditationSessionRecord;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  // Set once retrying stopped; lastError tells why
+  failed?: boolean;
+}
+
+const COLLECTION = 'place.starting.meditationSession';
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+let flushing = false;
+let flushRequested = false;
+let retryTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+// Helper: Build the at:// URI a queued record will have once written
+function buildUri(did: string, rkey: string): string {
+  return `at://${did}/${COLLECTION}/${rkey}`;
+}
+
+// Helper: Convert a queued entry into the Store's session shape
+function entryToSession(entry: OutboxEntry): MeditationSessionData {
+  return {
+    ...toMeditationSessionData(
+      buildUri(entry.did, entry.rkey),
+      '',
+      entry.record
+    ),
+    pendingSync: true,
+    ...(entry.failed && { syncError: entry.lastError ?? 'Unknown error' }),
+  };
+}
+
+// Helper: Exponential backoff delay for the given number of failed attempts
+function retryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+// Helper: Stop retrying an entry and show why in the Store
+async function markFailed(entry: OutboxEntry, message: string): Promise<void> {
+  entry.attempts++;
+  entry.lastError = message;
+  entry.failed = true;
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+
+  const uri = buildUri(entry.did, entry.rkey);
+  if (session?.sub === entry.did) {
+    Store.setState((state) => ({
+      meditationSessions: state.meditationSessions.map((s) =>
+        s.uri === uri ? { ...s, syncError: message } : s
+      ),
+    }));
+  }
+  console.warn(`Session ${entry.rkey} cannot be synced: ${message}`);
+}
+
+/**
+ * Queue a completed meditation session and try to write it right away.
+ * The session is added to the Store immediately, marked as pending sync
+ * until the write succeeds.
+ * @param duration - Duration in seconds
+ * @param preset - Optional { uri, cid } of the preset used
+ * @param notes - Optional user notes
+ * @param visibility - 'private' keeps the session out of friends' feeds
+ * @returns The session as added to the Store
+ * @throws {Error} If user not logged in or validation fails
+ */
+export async function queueMeditationSession(
+  duration: number,
+  preset: StrongRef | null,
+  notes: string | null,
+  visibility: SessionVisibility | null = null
+): Promise<MeditationSessionData> {
+  if (!session) {
+    throw new Error('User not logged in. Please sign in first.');
+  }
+
+  const entry: OutboxEntry = {
+    rkey: TID.nextStr(),
+    did: session.sub,
+    record: prepareMeditationSessionRecord(
+      duration,
+      preset,
+      notes,
+      new Date().toISOString(),
+      visibility
+    ),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  };
+
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+
+  // Newest first, matching the order returned by listRecords
+  const queued = entryToSession(entry);
+  Store.setState((state) => ({
+    meditationSessions: [queued, ...state.meditationSessions],
+  }));
+
+  await flushOutbox();
+  return (
+    Store.getState().meditationSessions.find((s) => s.uri === queued.uri) ??
+    queued
+  );
+}
+
+/**
+ * Returns the current account's sessions that are still waiting to sync
+ */
+export async function getPendingSessions(): Promise<MeditationSessionData[]> {
+  if (!session) return [];
+
+  const did = session.sub;
+  const entries = await withStore<OutboxEntry[]>(
+    OUTBOX_STORE,
+    'readonly',
+    (store) => store.getAll()
+  );
+
+  return entries
+    .filter((entry) => entry.did === did)
+    .map(entryToSession)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Adds queued sessions to the Store that are not in it already, e.g.
+ * after the Store was reloaded from the PDS
+ */
+export async function mergePendingSessions(): Promise<void> {
+  const pending = await getPendingSessions();
+  const { meditationSessions } = Store.getState();
+  const known = new Set(meditationSessions.map((s) => s.uri));
+  const missing = pending.filter((s) => !known.has(s.uri));
+
+  if (missing.length > 0) {
+    Store.setState({
+      meditationSessions: [...missing, ...meditationSessions].sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt)
+      ),
+    });
+  }
+}
+
+/**
+ * Try to write every queued session for the current account.
+ * Entries that fail are retried later with exponential backoff.
+ * @param force - Retry entries even if their backoff has not elapsed
+ */
+export async function flushOutbox(force: boolean = false): Promise<void> {
+  if (!session) return;
+
+  // Entries queued during a flush are picked up by a follow-up pass
+  if (flushing) {
+    flushRequested = true;
+    return;
+  }
+  flushing = true;
+  flushRequested = false;
+
+  if (retryTimeoutId !== null) {
+    clearTimeout(retryTimeoutId);
+    retryTimeoutId = null;
+  }
+
+  const did = session.sub;
+  let nextAttemptAt: number | null = null;
+
+  try {
+    const entries = await withStore<OutboxEntry[]>(
+      OUTBOX_STORE,
+      'readonly',
+      (store) => store.getAll()
+    );
+
+    for (const entry of entries) {
+      if (entry.did !== did) continue;
+
+      // Stop if the user switched accounts; the next account's own flush
+      // picks up its entries
+      if (session?.sub !== did) break;
+
+      if (entry.failed) continue;
+      if (!force && entry.nextAttemptAt > Date.now()) {
+        nextAttemptAt = Math.min(
+          nextAttemptAt ?? Infinity,
+          entry.nextAttemptAt
+        );
+        continue;
+      }
+
+      // A record that no longer matches the lexicon, e.g. one queued by an
+      // older version, is refused every time
+      const invalid = validateRecord(MEDITATION_SESSION_NSID, entry.record);
+      if (invalid) {
+        await markFailed(entry, `Invalid session record: ${invalid}`);
+        continue;
+      }
+
+      try {
+        const response = await putMeditationSession(
+          entry.did,
+          entry.rkey,
+          entry.record
+        );
+        await withStore(OUTBOX_STORE, 'readwrite', (store) =>
+          store.delete(entry.rkey)
+        );
+
+        // The Store holds another account's data after a switch
+        if (session?.sub !== did) break;
+        Store.setState((state) => ({
+          meditationSessions: state.meditationSessions.map((s) =>
+            s.uri === response.uri
+              ? { ...s, cid: response.cid, pendingSync: false }
+              : s
+          ),
+        }));
+      } catch (error) {
+        // Refused because the account changed; not a failed attempt
+        if (session?.sub !== did) break;
+
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        if (!isTransientError(error)) {
+          await markFailed(entry, errorMsg);
+          continue;
+        }
+
+        entry.attempts++;
+        entry.nextAttemptAt = Date.now() + retryDelay(entry.attempts);
+        entry.lastError = errorMsg;
+        await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+
+        nextAttemptAt = Math.min(
+          nextAttemptAt ?? Infinity,
+          entry.nextAttemptAt
+        );
+        console.warn(
+          `Session ${entry.rkey} not synced (attempt ${entry.attempts}): ${entry.lastError}`
+        );
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+
+  if (nextAttemptAt !== null) {
+    retryTimeoutId = setTimeout(
+      () => flushOutbox(),
+      Math.max(0, nextAttemptAt - Date.now())
+    );
+  }
+
+  if (flushRequested) {
+    await flushOutbox(force);
+  }
+}
+
+/**
+ * Removes a queued session that failed to sync from the outbox and the Store
+ * @param queued - Session as shown in the Store
+ */
+export async function discardQueuedSession(
+  queued: MeditationSessionData
+): Promise<void> {
+  const rkey = getRecordKey(queued.uri);
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(rkey));
+  Store.setState((state) => ({
+    meditationSessions: state.meditationSessions.filter(
+      (s) => s.uri !== queued.uri
+    ),
+  }));
+}
+
+// Retry as soon as the browser reports connectivity again
+window.addEventListener('online', () => {
+  flushOutbox(true);
+});
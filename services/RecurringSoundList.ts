@@ -0,0 +1,187 @@
+/**
+ * Editor for a preset's repeating bells, e.g. a bell every five minutes
+ */
+
+import { RecurringSound } from './LexiconTypes';
+import { describeRecurringSound } from './SoundRules';
+import {
+  SoundChoice,
+  createSoundSelect,
+  getSoundChoices,
+  getSoundLabel,
+} from './Sounds';
+import { createButton, clearContainer } from './UIComponents';
+
+const DEFAULT_SOUND_TYPE = 'bell';
+const DEFAULT_PERIOD = 300;
+
+export class RecurringSoundList {
+  readonly element: HTMLElement;
+  private list: HTMLElement;
+  private rules: RecurringSound[];
+
+  /**
+   * @param rules - Initial recurring sounds (copied, not mutated)
+   * @param onChange - Called with the current rules after every edit
+   * @param onPreview - Called with a sound type when the user previews it
+   * @param soundChoices - Sounds offered for each rule
+   */
+  constructor(
+    rules: RecurringSound[],
+    private onChange: (rules: RecurringSound[]) => void,
+    private onPreview: (soundType: string) => void,
+    private soundChoices: SoundChoice[] = getSoundChoices([])
+  ) {
+    this.rules = rules.map((rule) => ({ ...rule }));
+
+    this.element = document.createElement('div');
+    this.element.className = 'recurring-sounds';
+
+    this.list = document.createElement('div');
+    this.element.appendChild(this.list);
+
+    this.element.appendChild(
+      createButton('Add Repeating Bell', 'secondary', () => {
+        this.rules.push({
+          start: DEFAULT_PERIOD,
+          period: DEFAULT_PERIOD,
+          soundType: DEFAULT_SOUND_TYPE,
+        });
+        this.changed();
+      })
+    );
+
+    this.render();
+  }
+
+  /**
+   * Returns a copy of the current recurring sounds
+   */
+  getRules(): RecurringSound[] {
+    return this.rules.map((rule) => ({ ...rule }));
+  }
+
+  private changed(): void {
+    this.render();
+    this.onChange(this.getRules());
+  }
+
+  private render(): void {
+    clearContainer(this.list);
+
+    if (this.rules.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'timeline-hint';
+      empty.textContent = 'No repeating bells.';
+      this.list.appendChild(empty);
+      return;
+    }
+
+    this.rules.forEach((rule, index) => {
+      this.list.appendChild(this.renderRule(rule, index));
+    });
+  }
+
+  private renderRule(rule: RecurringSound, index: number): HTMLElement {
+    const item = document.createElement('div');
+    item.className = 'recurring-sound';
+
+    const summary = document.createElement('p');
+    summary.className = 'timeline-hint';
+    const describe = () =>
+      describeRecurringSound(
+        rule,
+        getSoundLabel(rule.soundType, this.soundChoices)
+      );
+    summary.textContent = describe();
+    item.appendChild(summary);
+
+    // Update the summary and markers without rebuilding the inputs
+    const update = () => {
+      summary.textContent = describe();
+      this.onChange(this.getRules());
+    };
+
+    const readWholeNumber = (input: HTMLInputElement, min: number): number => {
+      const value = parseInt(input.value);
+      return isNaN(value) ? min : Math.max(min, value);
+    };
+
+    // First bell (seconds)
+    const startLabel = document.createElement('label');
+    startLabel.textContent = 'First bell at (seconds):';
+    const startInput = document.createElement('input');
+    startInput.type = 'number';
+    startInput.min = '0';
+    startInput.value = rule.start.toString();
+    startInput.addEventListener('change', () => {
+      rule.start = readWholeNumber(startInput, 0);
+      startInput.value = rule.start.toString();
+      update();
+    });
+    startLabel.appendChild(startInput);
+    item.appendChild(startLabel);
+
+    // Period (seconds)
+    const periodLabel = document.createElement('label');
+    periodLabel.textContent = 'Repeat every (seconds):';
+    const periodInput = document.createElement('input');
+    periodInput.type = 'number';
+    periodInput.min = '1';
+    periodInput.value = rule.period.toString();
+    periodInput.addEventListener('change', () => {
+      rule.period = readWholeNumber(periodInput, 1);
+      periodInput.value = rule.period.toString();
+      update();
+    });
+    periodLabel.appendChild(periodInput);
+    item.appendChild(periodLabel);
+
+    // Count, left empty to repeat until the end
+    const countLabel = document.createElement('label');
+    countLabel.textContent = 'Number of bells (empty to repeat until the end):';
+    const countInput = document.createElement('input');
+    countInput.type = 'number';
+    countInput.min = '1';
+    countInput.value = rule.count?.toString() ?? '';
+    countInput.addEventListener('change', () => {
+      if (countInput.value.trim() === '') {
+        delete rule.count;
+      } else {
+        rule.count = readWholeNumber(countInput, 1);
+        countInput.value = rule.count.toString();
+      }
+      update();
+    });
+    countLabel.appendChild(countInput);
+    item.appendChild(countLabel);
+
+    // Sound type selector, keeping unknown types from other clients
+    const soundLabel = document.createElement('label');
+    soundLabel.textContent = 'Sound:';
+    const soundSelect = createSoundSelect(this.soundChoices, rule.soundType);
+    soundSelect.addEventListener('change', () => {
+      rule.soundType = soundSelect.value;
+      update();
+    });
+    soundLabel.appendChild(soundSelect);
+    item.appendChild(soundLabel);
+
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+    buttonContainer.appendChild(
+      createButton('Preview', 'secondary', () => {
+        this.onPreview(rule.soundType);
+      })
+    );
+    buttonContainer.appendChild(
+      createButton('Remove', 'secondary', () => {
+        this.rules.splice(index, 1);
+        this.changed();
+      })
+    );
+    item.appendChild(buttonContainer);
+
+    return item;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Hash-based router.
+ * Routes live in the URL fragment as "#/path?query", so deep links work
+ * without server support and every view change gets a history entry.
+ * Fragments that do not start with "#/" are left alone; the OAuth callback
+ * returns its code/error parameters in the fragment and must not be
+ * mistaken for a route.
+ */
+
+export interface RouteMatch {
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+type RouteHandler = (match: RouteMatch) => void;
+
+interface RouteDefinition {
+  segments: string[];
+  handler: RouteHandler;
+}
+
+const ROUTE_PREFIX = '#/';
+
+/**
+ * Returns true if the given URL fragment holds a route rather than, for
+ * example, OAuth callback parameters
+ * @param hash - Fragment including the leading '#'
+ */
+export function isRouteHash(hash: string): boolean {
+  return hash.startsWith(ROUTE_PREFIX);
+}
+
+// Helper: Split a path into its non-empty segments
+function splitPath(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length > 0);
+}
+
+export class Router {
+  private routes: RouteDefinition[] = [];
+  private fallback: RouteHandler | null = null;
+  // Route most recently handled, so repeated events for it are ignored
+  private currentRoute: string | null = null;
+  private started = false;
+  private resolving = false;
+
+  /**
+   * Registers a route
+   * @param pattern - Path such as '/presets/:rkey'; segments starting with
+   * ':' match any value and are passed to the handler as params
+   * @param handler - Called when the route is visited
+   */
+  add(pattern: string, handler: RouteHandler): this {
+    this.routes.push({ segments: splitPath(pattern), handler });
+    return this;
+  }
+
+  /**
+   * Registers the handler used when no route matches
+   * @param handler - Called for unknown paths
+   */
+  otherwise(handler: RouteHandler): this {
+    this.fallback = handler;
+    return this;
+  }
+
+  /**
+   * Starts listening for back/forward navigation and handles the initial
+   * route
+   * @param initialRoute - Route to show first, e.g. one saved before a
+   * redirect. Defaults to the route in the current URL, or '/'.
+   */
+  start(initialRoute?: string): void {
+    if (!this.started) {
+      this.started = true;
+      window.addEventListener('popstate', this.handleLocationChange);
+      window.addEventListener('hashchange', this.handleLocationChange);
+    }
+
+    const route =
+      initialRoute ??
+      (isRouteHash(window.location.hash) ? window.location.hash.slice(1) : '/');
+    this.navigate(route, { replace: true });
+  }
+
+  /**
+   * Stops listening for navigation events
+   */
+  stop(): void {
+    window.removeEventListener('popstate', this.handleLocationChange);
+    window.removeEventListener('hashchange', this.handleLocationChange);
+    this.started = false;
+    this.currentRoute = null;
+  }
+
+  /**
+   * Navigates to a route and runs its handler
+   * @param route - Path with optional query, e.g. '/meditate?preset=abc'
+   * @param options - replace: overwrite the current history entry
+   */
+  navigate(route: string, options: { replace?: boolean } = {}): void {
+    this.setRoute(route, options);
+    this.resolve(route);
+  }
+
+  /**
+   * Records a route in the URL without running its handler, for views that
+   * were shown directly. A handler that settles on a different route
+   * replaces the entry being handled instead of adding another one.
+   * @param route - Path with optional query
+   * @param options - replace: overwrite the current history entry
+   */
+  setRoute(route: string, options: { replace?: boolean } = {}): void {
+    if (!this.started) return;
+
+    this.currentRoute = route;
+    if (window.location.hash === `#${route}`) return;
+
+    const url = `${window.location.pathname}${window.location.search}#${route}`;
+    if (options.replace || this.resolving) {
+      history.replaceState(null, '', url);
+    } else {
+      history.pushState(null, '', url);
+    }
+  }
+
+  /**
+   * Returns the route currently shown, or null before the router starts
+   */
+  getCurrentRoute(): string | null {
+    return this.currentRoute;
+  }
+
+  // Back/forward and manually edited fragments arrive here. Browsers fire
+  // both popstate and hashchange for some changes, so each route is only
+  // handled once.
+  private handleLocationChange = (): void => {
+    const hash = window.location.hash;
+    if (!isRouteHash(hash)) return;
+
+    const route = hash.slice(1);
+    if (route === this.currentRoute) return;
+    this.resolve(route);
+  };
+
+  private resolve(route: string): void {
+    this.currentRoute = route;
+
+    const [path, queryString = ''] = route.split('?', 2);
+    const segments = splitPath(path);
+    const query = new URLSearchParams(queryString);
+
+    const definition = this.routes.find(
+      (route) => this.matchSegments(route.segments, segments) !== null
+    );
+
+    this.resolving = true;
+    try {
+      if (definition) {
+        definition.handler({
+          path,
+          params: this.matchSegments(definition.segments, segments)!,
+          query,
+        });
+      } else {
+        this.fallback?.({ path, params: {}, query });
+      }
+    } finally {
+      this.resolving = false;
+    }
+  }
+
+  // Returns the params captured by a pattern, or null if it does not match
+  private matchSegments(
+    pattern: string[],
+    segments: string[]
+  ): Record<string, string> | null {
+    if (pattern.length !== segments.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i].startsWith(':')) {
+        params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+      } else if (pattern[i] !== segments[i]) {
+        return null;
+      }
+    }
+    return params;
+  }
+}
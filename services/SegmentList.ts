@@ -0,0 +1,204 @@
+/**
+ * Editor for a preset's segments, e.g. "Settling", "Body scan" and
+ * "Open awareness", each with a duration, guidance text and the sound that
+ * begins it
+ */
+
+import { Segment } from './LexiconTypes';
+import { MAX_SEGMENTS } from './Segments';
+import { SoundChoice, createSoundSelect, getSoundChoices } from './Sounds';
+import { createButton, clearContainer, formatTime } from './UIComponents';
+
+const DEFAULT_TRANSITION_SOUND = 'bell';
+const DEFAULT_SEGMENT_DURATION = 300;
+
+export class SegmentList {
+  readonly element: HTMLElement;
+  private list: HTMLElement;
+  private addButton: HTMLButtonElement;
+  private segments: Segment[];
+
+  /**
+   * @param segments - Initial segments (copied, not mutated)
+   * @param onChange - Called with the current segments after every edit
+   * @param onPreview - Called with a sound type when the user previews it
+   * @param soundChoices - Sounds offered to begin each segment
+   */
+  constructor(
+    segments: Segment[],
+    private onChange: (segments: Segment[]) => void,
+    private onPreview: (soundType: string) => void,
+    private soundChoices: SoundChoice[] = getSoundChoices([])
+  ) {
+    this.segments = segments.map((segment) => ({ ...segment }));
+
+    this.element = document.createElement('div');
+    this.element.className = 'segment-list';
+
+    this.list = document.createElement('div');
+    this.element.appendChild(this.list);
+
+    this.addButton = createButton('Add Segment', 'secondary', () => {
+      this.segments.push({
+        name: `Segment ${this.segments.length + 1}`,
+        duration: DEFAULT_SEGMENT_DURATION,
+        transitionSound: DEFAULT_TRANSITION_SOUND,
+      });
+      this.changed();
+    });
+    this.element.appendChild(this.addButton);
+
+    this.render();
+  }
+
+  /**
+   * Returns a copy of the current segments
+   */
+  getSegments(): Segment[] {
+    return this.segments.map((segment) => ({ ...segment }));
+  }
+
+  private changed(): void {
+    this.render();
+    this.onChange(this.getSegments());
+  }
+
+  private render(): void {
+    clearContainer(this.list);
+    this.addButton.disabled = this.segments.length >= MAX_SEGMENTS;
+
+    if (this.segments.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'timeline-hint';
+      empty.textContent =
+        'No segments. Add segments to guide the meditation in phases.';
+      this.list.appendChild(empty);
+      return;
+    }
+
+    this.segments.forEach((segment, index) => {
+      this.list.appendChild(this.renderSegment(segment, index));
+    });
+  }
+
+  private renderSegment(segment: Segment, index: number): HTMLElement {
+    const item = document.createElement('div');
+    item.className = 'segment-item';
+
+    const heading = document.createElement('p');
+    heading.className = 'timeline-hint';
+    const updateHeading = () => {
+      heading.textContent = `${index + 1}. ${
+        segment.name || 'Untitled'
+      } (${formatTime(segment.duration)})`;
+    };
+    updateHeading();
+    item.appendChild(heading);
+
+    const update = () => {
+      updateHeading();
+      this.onChange(this.getSegments());
+    };
+
+    // Name input
+    const nameLabel = document.createElement('label');
+    nameLabel.textContent = 'Name:';
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.maxLength = 100;
+    nameInput.value = segment.name;
+    nameInput.addEventListener('input', () => {
+      segment.name = nameInput.value.trim();
+      update();
+    });
+    nameLabel.appendChild(nameInput);
+    item.appendChild(nameLabel);
+
+    // Duration input (minutes)
+    const durationLabel = document.createElement('label');
+    durationLabel.textContent = 'Duration (minutes):';
+    const durationInput = document.createElement('input');
+    durationInput.type = 'number';
+    durationInput.min = '1';
+    durationInput.value = (segment.duration / 60).toString();
+    durationInput.addEventListener('change', () => {
+      const minutes = parseFloat(durationInput.value);
+      segment.duration = isNaN(minutes)
+        ? 60
+        : Math.max(1, Math.round(minutes * 60)); // Convert to seconds
+      durationInput.value = (segment.duration / 60).toString();
+      update();
+    });
+    durationLabel.appendChild(durationInput);
+    item.appendChild(durationLabel);
+
+    // Guidance textarea
+    const guidanceLabel = document.createElement('label');
+    guidanceLabel.textContent = 'Guidance (optional):';
+    const guidanceTextarea = document.createElement('textarea');
+    guidanceTextarea.rows = 3;
+    guidanceTextarea.maxLength = 1000;
+    guidanceTextarea.value = segment.guidance ?? '';
+    guidanceTextarea.addEventListener('input', () => {
+      const guidance = guidanceTextarea.value.trim();
+      if (guidance) {
+        segment.guidance = guidance;
+      } else {
+        delete segment.guidance;
+      }
+      update();
+    });
+    guidanceLabel.appendChild(guidanceTextarea);
+    item.appendChild(guidanceLabel);
+
+    // Transition sound selector, keeping unknown types from other clients
+    const soundLabel = document.createElement('label');
+    soundLabel.textContent =
+      index === 0 ? 'Starting sound:' : 'Sound when this segment begins:';
+    const noneChoice = {
+      soundType: '',
+      label: index === 0 ? 'Default start bell' : 'None',
+    };
+    const soundSelect = createSoundSelect(
+      [noneChoice, ...this.soundChoices],
+      segment.transitionSound ?? ''
+    );
+    soundSelect.addEventListener('change', () => {
+      if (soundSelect.value) {
+        segment.transitionSound = soundSelect.value;
+      } else {
+        delete segment.transitionSound;
+      }
+      update();
+    });
+    soundLabel.appendChild(soundSelect);
+    item.appendChild(soundLabel);
+
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'button-group';
+    const previewButton = createButton('Preview', 'secondary', () => {
+      if (segment.transitionSound) this.onPreview(segment.transitionSound);
+    });
+    buttonContainer.appendChild(previewButton);
+    if (index > 0) {
+      buttonContainer.appendChild(
+        createButton('Move Up', 'secondary', () => {
+          [this.segments[index - 1], this.segments[index]] = [
+            this.segments[index],
+            this.segments[index - 1],
+          ];
+          this.changed();
+        })
+      );
+    }
+    buttonContainer.appendChild(
+      createButton('Remove', 'secondary', () => {
+        this.segments.splice(index, 1);
+        this.changed();
+      })
+    );
+    item.appendChild(buttonContainer);
+
+    return item;
+  }
+}
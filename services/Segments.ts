@@ -0,0 +1,58 @@
+/**
+ * Segments of multi-phase presets, e.g. "Settling", "Body scan" and
+ * "Open awareness". A preset with segments has a duration equal to their
+ * sum. A session may still run longer or shorter than its preset, when the
+ * user changes the duration or extends the timer; the last segment reached
+ * then runs until the end of the session.
+ */
+
+import { Segment } from './LexiconTypes';
+
+// Most segments a preset may have, matching the lexicon
+export const MAX_SEGMENTS = 50;
+
+export interface SegmentPosition {
+  index: number;
+  segment: Segment;
+  // Seconds left in the segment
+  remaining: number;
+}
+
+/**
+ * Returns the total duration of segments in seconds
+ * @param segments - Segments of a preset
+ */
+export function getSegmentsDuration(segments: Segment[]): number {
+  return segments.reduce((total, segment) => total + segment.duration, 0);
+}
+
+/**
+ * Finds the segment playing at a moment of a session
+ * @param segments - Segments of the preset, in order
+ * @param elapsed - Seconds elapsed since the session started
+ * @param duration - Current length of the session in seconds
+ * @returns The segment and its remaining time, or null without segments
+ */
+export function getSegmentAt(
+  segments: Segment[],
+  elapsed: number,
+  duration: number
+): SegmentPosition | null {
+  let start = 0;
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const isLast =
+      index === segments.length - 1 || start + segment.duration >= duration;
+    const end = isLast ? duration : start + segment.duration;
+
+    if (elapsed < end || isLast) {
+      return {
+        index,
+        segment,
+        remaining: Math.max(0, Math.ceil(end - elapsed)),
+      };
+    }
+    start = end;
+  }
+  return null;
+}
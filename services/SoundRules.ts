@@ -0,0 +1,131 @@
+/**
+ * Recurring sounds and segment transitions in presets.
+ * A preset describes repeating bells as rules in recurringSounds, and the
+ * sounds that begin each segment in its segments. Its soundIntervals still
+ * lists every bell, including the ones the rules and segments produce, so
+ * clients that do not know those fields play the same bells.
+ * Validation, saving and playback all expand rules with the functions here,
+ * so they always agree on which bells a preset rings.
+ */
+
+import { RecurringSound, Segment, SoundInterval } from './LexiconTypes';
+
+// Most sounds a preset may ring, to keep records and playback bounded
+export const MAX_SOUNDS = 1000;
+
+// Helper: Key identifying a sound at a moment
+function soundKey(interval: SoundInterval): string {
+  return `${interval.time}|${interval.soundType}`;
+}
+
+/**
+ * Lists the sounds a rule produces within a duration
+ * @param rule - Recurring sound
+ * @param duration - Length of the meditation in seconds; rules without a
+ * count repeat up to and including this time
+ * @returns Sounds in time order, at most MAX_SOUNDS
+ */
+export function expandRecurringSound(
+  rule: RecurringSound,
+  duration: number
+): SoundInterval[] {
+  const period = Math.max(1, rule.period);
+  const limit = Math.min(rule.count ?? MAX_SOUNDS, MAX_SOUNDS);
+  const sounds: SoundInterval[] = [];
+
+  for (
+    let time = rule.start;
+    sounds.length < limit && (rule.count !== undefined || time <= duration);
+    time += period
+  ) {
+    sounds.push({ time, soundType: rule.soundType });
+  }
+  return sounds;
+}
+
+/**
+ * Lists the sounds that begin segments
+ * @param segments - Segments of a preset, in order
+ * @returns Sounds in time order
+ */
+export function getTransitionSounds(segments: Segment[]): SoundInterval[] {
+  const sounds: SoundInterval[] = [];
+  let time = 0;
+  segments.forEach((segment) => {
+    if (segment.transitionSound) {
+      sounds.push({ time, soundType: segment.transitionSound });
+    }
+    time += segment.duration;
+  });
+  return sounds;
+}
+
+/**
+ * Combines one-off sounds with the sounds produced by rules and segments.
+ * A sound that several lists ring at the same moment is kept once.
+ * @param duration - Length of the meditation in seconds
+ * @param intervals - One-off sounds
+ * @param rules - Recurring sounds
+ * @param segments - Segments whose transition sounds to include
+ * @returns Every sound, in time order
+ */
+export function expandSoundIntervals(
+  duration: number,
+  intervals: SoundInterval[],
+  rules: RecurringSound[],
+  segments: Segment[] = []
+): SoundInterval[] {
+  const sounds = new Map<string, SoundInterval>();
+  [
+    ...intervals,
+    ...rules.flatMap((rule) => expandRecurringSound(rule, duration)),
+    ...getTransitionSounds(segments),
+  ].forEach((interval) => {
+    sounds.set(soundKey(interval), {
+      time: interval.time,
+      soundType: interval.soundType,
+    });
+  });
+
+  return [...sounds.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Returns the sounds of a stored preset that no rule or segment produces,
+ * i.e. the bells the user placed one by one
+ * @param soundIntervals - The preset's full list of sounds
+ * @param rules - The preset's recurring sounds
+ * @param duration - The preset's duration in seconds
+ * @param segments - The preset's segments
+ */
+export function getOneOffIntervals(
+  soundIntervals: SoundInterval[],
+  rules: RecurringSound[],
+  duration: number,
+  segments: Segment[] = []
+): SoundInterval[] {
+  const produced = new Set(
+    [
+      ...rules.flatMap((rule) => expandRecurringSound(rule, duration)),
+      ...getTransitionSounds(segments),
+    ].map(soundKey)
+  );
+  return soundIntervals.filter((interval) => !produced.has(soundKey(interval)));
+}
+
+/**
+ * Describes a rule for display, e.g. "bell every 5:00 from 0:00"
+ * @param rule - Recurring sound
+ * @param label - Name to show for the rule's sound type
+ */
+export function describeRecurringSound(
+  rule: RecurringSound,
+  label: string = rule.soundType
+): string {
+  const format = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  const times = rule.count === undefined ? '' : `, ${rule.count} times`;
+  return `${label} every ${format(rule.period)} from ${format(
+    rule.start
+  )}${times}`;
+}
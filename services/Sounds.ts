@@ -0,0 +1,286 @@
+/**
+ * Sounds users upload to their PDS, such as their own bells and guided
+ * meditations.
+ * Presets bind sound types like "custom:3kabc..." to sound records, and may
+ * reference a guided recording. Recordings are downloaded from the PDS
+ * hosting them and kept in IndexedDB by the CID of their sound record, so
+ * repeat sessions play them without fetching anything. The least recently
+ * used recordings are dropped once the cache grows past its limit.
+ */
+
+import { PresetAudio, downloadBlob, getRecordKey, getSound } from './API';
+import { SoundPlayer, getAvailableSoundTypes } from './Audio';
+import { BLOB_STORE, withStore } from './Database';
+import { CustomSound, PresetData, SoundData, StrongRef } from './LexiconTypes';
+import Store from './Store';
+
+export interface SoundChoice {
+  soundType: string;
+  label: string;
+}
+
+interface CachedRecording {
+  // CID of the sound record the recording belongs to
+  cid: string;
+  data: Blob;
+  size: number;
+  usedAt: number;
+}
+
+export const CUSTOM_SOUND_PREFIX = 'custom:';
+
+// Most bytes of recordings kept on this device
+const RECORDING_CACHE_MAX_BYTES = 200_000_000;
+
+/**
+ * Returns the sound type presets use for an uploaded sound
+ * @param sound - Sound record
+ */
+export function getCustomSoundType(sound: StrongRef): string {
+  return CUSTOM_SOUND_PREFIX + getRecordKey(sound.uri);
+}
+
+/**
+ * Returns true for sound types bound to uploaded sounds
+ * @param soundType - Sound type
+ */
+export function isCustomSoundType(soundType: string): boolean {
+  return soundType.startsWith(CUSTOM_SOUND_PREFIX);
+}
+
+/**
+ * Returns true for sounds meant to play from the start of a session
+ * @param sound - Sound record
+ */
+export function isGuidedSound(sound: SoundData): boolean {
+  return sound.kind === 'guidance';
+}
+
+/**
+ * Lists the sounds that can be placed in a preset: the built-in sounds and
+ * the user's uploaded bells
+ * @param sounds - The user's uploaded sounds
+ */
+export function getSoundChoices(sounds: readonly SoundData[]): SoundChoice[] {
+  return [
+    ...getAvailableSoundTypes().map((soundType) => ({
+      soundType,
+      label: soundType,
+    })),
+    ...sounds
+      .filter((sound) => !isGuidedSound(sound))
+      .map((sound) => ({
+        soundType: getCustomSoundType(sound),
+        label: sound.name,
+      })),
+  ];
+}
+
+/**
+ * Returns the name to show for a sound type
+ * @param soundType - Sound type
+ * @param choices - Sounds known by name, from getSoundChoices
+ */
+export function getSoundLabel(
+  soundType: string,
+  choices: SoundChoice[]
+): string {
+  return (
+    choices.find((choice) => choice.soundType === soundType)?.label ??
+    (isCustomSoundType(soundType) ? 'Uploaded sound' : soundType)
+  );
+}
+
+/**
+ * Builds a sound selector, keeping a current value that is not among the
+ * choices, e.g. a sound type from another client or another user's upload
+ * @param choices - Sounds to offer
+ * @param value - Selected sound type
+ */
+export function createSoundSelect(
+  choices: SoundChoice[],
+  value: string
+): HTMLSelectElement {
+  const select = document.createElement('select');
+  const options = choices.some((choice) => choice.soundType === value)
+    ? choices
+    : [...choices, { soundType: value, label: getSoundLabel(value, choices) }];
+  options.forEach((choice) => {
+    const option = document.createElement('option');
+    option.value = choice.soundType;
+    option.textContent = choice.label;
+    select.appendChild(option);
+  });
+  select.value = value;
+  return select;
+}
+
+/**
+ * Finds the sound record bound to a sound type
+ * @param soundType - Sound type
+ * @param customSounds - Bindings of the preset being played or edited
+ * @returns Reference to the sound record, or null if none is bound
+ */
+export function findCustomSound(
+  soundType: string,
+  customSounds: CustomSound[]
+): StrongRef | null {
+  const own = Store.getState().sounds.find(
+    (sound) => getCustomSoundType(sound) === soundType
+  );
+  if (own) return { uri: own.uri, cid: own.cid };
+  return (
+    customSounds.find((customSound) => customSound.soundType === soundType)
+      ?.sound ?? null
+  );
+}
+
+/**
+ * Collects the uploaded sounds a preset plays
+ * @param soundTypes - Every sound type the preset uses
+ * @param existing - Bindings the preset had, kept for sounds that are not
+ * the user's own, e.g. in a copied preset
+ * @param guidedAudio - Guided recording, or null for none
+ */
+export function getPresetAudio(
+  soundTypes: string[],
+  existing: CustomSound[],
+  guidedAudio: StrongRef | null
+): PresetAudio {
+  const customSounds: CustomSound[] = [];
+  new Set(soundTypes.filter(isCustomSoundType)).forEach((soundType) => {
+    const sound = findCustomSound(soundType, existing);
+    if (sound) customSounds.push({ soundType, sound });
+  });
+  return { customSounds, guidedAudio };
+}
+
+/**
+ * Returns a recording, from this device if it was downloaded before
+ * @param ref - { uri, cid } of the sound record, possibly in another repo
+ * @throws {Error} If the sound or its blob cannot be fetched
+ */
+export async function loadRecording(ref: StrongRef): Promise<Blob> {
+  const cached = await withStore<CachedRecording | undefined>(
+    BLOB_STORE,
+    'readonly',
+    (store) => store.get(ref.cid)
+  ).catch(() => undefined);
+  if (cached) {
+    // Remember the use, so often played recordings stay cached
+    await withStore(BLOB_STORE, 'readwrite', (store) =>
+      store.put({ ...cached, usedAt: Date.now() })
+    ).catch(() => undefined);
+    return cached.data;
+  }
+
+  const { repo, sound } = await getSound(ref);
+  const recording = await downloadBlob(repo, sound.audio.ref.toString());
+  await saveRecording(ref.cid, recording);
+  return recording;
+}
+
+/**
+ * Keeps a recording on this device, e.g. right after uploading it, and
+ * drops the least recently used recordings beyond the cache limit
+ * @param cid - CID of the sound record
+ * @param recording - Audio file
+ */
+export async function saveRecording(
+  cid: string,
+  recording: Blob
+): Promise<void> {
+  try {
+    const entry: CachedRecording = {
+      cid,
+      data: recording,
+      size: recording.size,
+      usedAt: Date.now(),
+    };
+    await withStore(BLOB_STORE, 'readwrite', (store) => store.put(entry));
+
+    const entries = await withStore<CachedRecording[]>(
+      BLOB_STORE,
+      'readonly',
+      (store) => store.getAll()
+    );
+    let total = entries.reduce((sum, cachedEntry) => sum + cachedEntry.size, 0);
+    for (const oldest of entries.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (total <= RECORDING_CACHE_MAX_BYTES || oldest.cid === cid) break;
+      await withStore(BLOB_STORE, 'readwrite', (store) =>
+        store.delete(oldest.cid)
+      );
+      total -= oldest.size;
+    }
+  } catch (error) {
+    // Playback works without the cache; the recording is fetched again
+    console.error('Failed to write recording cache:', error);
+  }
+}
+
+/**
+ * Returns true if a preset plays any uploaded sound
+ * @param preset - Preset
+ */
+export function hasPresetAudio(preset: PresetData): boolean {
+  return preset.customSounds.length > 0 || preset.guidedAudio !== null;
+}
+
+/**
+ * Loads a preset's uploaded bells into a player and fetches its guided
+ * recording. Sounds that fail to load are reported and left out, so their
+ * sound types fall back to a bell once the preset's sounds are bound.
+ * @param player - Player that plays the session's sounds
+ * @param preset - Preset to play
+ * @returns The guided recording, if any, and how many sounds failed
+ */
+export async function loadPresetAudio(
+  player: SoundPlayer,
+  preset: PresetData
+): Promise<{ guidedRecording: Blob | null; failed: number }> {
+  const [bells, guided] = await Promise.all([
+    Promise.allSettled(
+      preset.customSounds.map(async (customSound) => {
+        if (player.hasSound(customSound.sound)) return;
+        const recording = await loadRecording(customSound.sound);
+        await player.loadSound(customSound.sound, recording);
+      })
+    ),
+    Promise.allSettled(
+      preset.guidedAudio ? [loadRecording(preset.guidedAudio)] : []
+    ),
+  ]);
+
+  const failures = [...bells, ...guided].filter(
+    (result) => result.status === 'rejected'
+  );
+  failures.forEach((failure) => {
+    console.error('Failed to load sound:', failure.reason);
+  });
+  return {
+    guidedRecording: guided[0]?.status === 'fulfilled' ? guided[0].value : null,
+    failed: failures.length,
+  };
+}
+
+/**
+ * Reads the length of a recording from its metadata
+ * @param recording - Audio file
+ * @returns Length in seconds, or null if the browser cannot tell
+ */
+export function readRecordingDuration(recording: Blob): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(recording);
+    const element = new Audio();
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    element.preload = 'metadata';
+    element.addEventListener('loadedmetadata', () => {
+      finish(isFinite(element.duration) ? element.duration : null);
+    });
+    element.addEventListener('error', () => finish(null));
+    element.src = url;
+  });
+}
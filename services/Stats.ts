@@ -0,0 +1,206 @@
+/**
+ * Statistics computed from meditation session history.
+ * Day, week and month boundaries follow the user's local timezone.
+ */
+
+import { MeditationSessionData } from './Store';
+
+export interface PeriodTotal {
+  label: string;
+  start: Date;
+  minutes: number;
+}
+
+export interface SessionStats {
+  currentStreak: number;
+  longestStreak: number;
+  totalSessions: number;
+  totalMinutes: number;
+  averageMinutes: number;
+  sessionsPerWeek: number;
+  weekly: PeriodTotal[];
+  monthly: PeriodTotal[];
+}
+
+const WEEKS_IN_CHART = 12;
+const MONTHS_IN_CHART = 12;
+
+/**
+ * Returns midnight at the start of the given date's local day
+ */
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Returns midnight at the start of the local week (weeks start on Monday)
+ */
+function startOfLocalWeek(date: Date): Date {
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() - daysSinceMonday
+  );
+}
+
+// Key for a local calendar day, independent of DST offset changes
+function localDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+// Returns the local day before the given day
+function previousDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+}
+
+// Calendar days between two local midnights, safe across DST changes
+function daysBetween(earlier: Date, later: Date): number {
+  const utcEarlier = Date.UTC(
+    earlier.getFullYear(),
+    earlier.getMonth(),
+    earlier.getDate()
+  );
+  const utcLater = Date.UTC(
+    later.getFullYear(),
+    later.getMonth(),
+    later.getDate()
+  );
+  return Math.round((utcLater - utcEarlier) / 86400000);
+}
+
+/**
+ * Computes streaks, totals and chart data from a list of sessions
+ * @param sessions - Sessions in any order
+ * @param now - Current time, used to anchor streaks and charts
+ * @returns SessionStats
+ */
+export function computeStats(
+  sessions: readonly MeditationSessionData[],
+  now: Date = new Date()
+): SessionStats {
+  const dates = sessions
+    .map((session) => new Date(session.createdAt))
+    .filter((date) => !isNaN(date.getTime()));
+  const totalSeconds = sessions.reduce(
+    (sum, session) => sum + (session.duration || 0),
+    0
+  );
+  const totalMinutes = Math.round(totalSeconds / 60);
+
+  // Distinct local days with at least one session, sorted oldest first
+  const days = new Map<string, Date>();
+  dates.forEach((date) => {
+    days.set(localDayKey(date), startOfLocalDay(date));
+  });
+  const sortedDays = [...days.values()].sort(
+    (a, b) => a.getTime() - b.getTime()
+  );
+
+  // Longest run of consecutive days
+  let longestStreak = 0;
+  let run = 0;
+  sortedDays.forEach((day, i) => {
+    run = i > 0 && daysBetween(sortedDays[i - 1], day) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // Current streak counts back from today, or from yesterday if the user
+  // has not meditated yet today
+  let currentStreak = 0;
+  let day = startOfLocalDay(now);
+  if (!days.has(localDayKey(day))) {
+    day = previousDay(day);
+  }
+  while (days.has(localDayKey(day))) {
+    currentStreak++;
+    day = previousDay(day);
+  }
+
+  // Sessions per week since the first session, counting at least one week
+  const weeksActive =
+    sortedDays.length > 0
+      ? Math.max(1, (daysBetween(sortedDays[0], now) + 1) / 7)
+      : 1;
+
+  return {
+    currentStreak,
+    longestStreak,
+    totalSessions: sessions.length,
+    totalMinutes,
+    averageMinutes:
+      sessions.length > 0 ? Math.round(totalSeconds / 60 / sessions.length) : 0,
+    sessionsPerWeek: Math.round((sessions.length / weeksActive) * 10) / 10,
+    weekly: computeWeeklyTotals(sessions, now),
+    monthly: computeMonthlyTotals(sessions, now),
+  };
+}
+
+// Minutes per local week for the most recent weeks, oldest first
+function computeWeeklyTotals(
+  sessions: readonly MeditationSessionData[],
+  now: Date
+): PeriodTotal[] {
+  const currentWeek = startOfLocalWeek(now);
+  const weeks: PeriodTotal[] = [];
+
+  for (let i = WEEKS_IN_CHART - 1; i >= 0; i--) {
+    const start = new Date(
+      currentWeek.getFullYear(),
+      currentWeek.getMonth(),
+      currentWeek.getDate() - i * 7
+    );
+    weeks.push({
+      label: start.toLocaleDateString(undefined, {
+        month: 'short',
+        day: 'numeric',
+      }),
+      start,
+      minutes: 0,
+    });
+  }
+
+  return addSessionMinutes(weeks, sessions);
+}
+
+// Minutes per local month for the most recent months, oldest first
+function computeMonthlyTotals(
+  sessions: readonly MeditationSessionData[],
+  now: Date
+): PeriodTotal[] {
+  const months: PeriodTotal[] = [];
+
+  for (let i = MONTHS_IN_CHART - 1; i >= 0; i--) {
+    const start = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    months.push({
+      label: start.toLocaleDateString(undefined, { month: 'short' }),
+      start,
+      minutes: 0,
+    });
+  }
+
+  return addSessionMinutes(months, sessions);
+}
+
+// Adds each session's minutes to the last period starting on or before it
+function addSessionMinutes(
+  periods: PeriodTotal[],
+  sessions: readonly MeditationSessionData[]
+): PeriodTotal[] {
+  sessions.forEach((session) => {
+    const time = new Date(session.createdAt).getTime();
+    if (isNaN(time) || time < periods[0].start.getTime()) return;
+
+    for (let i = periods.length - 1; i >= 0; i--) {
+      if (time >= periods[i].start.getTime()) {
+        periods[i].minutes += (session.duration || 0) / 60;
+        break;
+      }
+    }
+  });
+
+  periods.forEach((period) => {
+    period.minutes = Math.round(period.minutes);
+  });
+  return periods;
+}
@@ -1,34 +1,216 @@
-interface MeditationSessionData {
-  uri: string;
-  cid: string;
-  createdAt: string;
-  duration: number;
-  presetId: string | null;
-  notes: string | null;
+/**
+ * Observable application state.
+ * State is replaced rather than mutated: every update produces a new state
+ * object, and unchanged records keep their identity. Subscribers select the
+ * slice they care about and are notified only when that slice changes.
+ * Notifications are batched, so several updates made in the same task
+ * result in a single call per subscriber.
+ * The state belongs to the active account; the state of other signed-in
+ * accounts is held aside until the user switches back to them.
+ */
+
+import { InvalidRecord } from './Lexicons';
+import {
+  MeditationSessionData as MeditationSessionModel,
+  PresetData,
+  SoundData,
+} from './LexiconTypes';
+
+export type MeditationSessionData = MeditationSessionModel & {
+  // Set while the session is waiting in the offline outbox
+  pendingSync?: boolean;
+  // Why the PDS refused the session, once the outbox stopped retrying it
+  syncError?: string;
+};
+
+export interface StoreState {
+  readonly meditationSessions: readonly MeditationSessionData[];
+  readonly presets: readonly PresetData[];
+  // Sounds the user uploaded
+  readonly sounds: readonly SoundData[];
+  // Listed records that failed lexicon validation
+  readonly invalidRecords: readonly InvalidRecord[];
 }
 
-interface SoundInterval {
-  time: number;
-  soundType: string;
+export type Selector<T> = (state: StoreState) => T;
+export type StoreListener<T> = (value: T, previous: T) => void;
+
+type StateUpdate =
+  | Partial<StoreState>
+  | ((state: StoreState) => Partial<StoreState>);
+
+interface Subscription<T> {
+  selector: Selector<T>;
+  listener: StoreListener<T>;
+  // Value the listener last saw
+  value: T;
 }
 
-interface PresetData {
-  uri: string;
-  cid: string;
-  name: string;
-  duration: number;
-  createdAt: string;
-  soundIntervals: SoundInterval[];
+export const selectMeditationSessions: Selector<
+  readonly MeditationSessionData[]
+> = (state) => state.meditationSessions;
+
+export const selectPresets: Selector<readonly PresetData[]> = (state) =>
+  state.presets;
+
+export const selectSounds: Selector<readonly SoundData[]> = (state) =>
+  state.sounds;
+
+export const selectInvalidRecords: Selector<readonly InvalidRecord[]> = (
+  state
+) => state.invalidRecords;
+
+/**
+ * Returns a selector for the preset with the given URI
+ * @param uri - Preset record URI
+ */
+export function selectPresetByUri(
+  uri: string
+): Selector<PresetData | undefined> {
+  return (state) => state.presets.find((preset) => preset.uri === uri);
 }
 
-interface StoreType {
-  meditationSessions: MeditationSessionData[];
-  presets: PresetData[];
+// Helper: Freeze the state and its lists so accidental mutation fails loudly
+function freezeState(state: StoreState): StoreState {
+  Object.values(state).forEach((value) => Object.freeze(value));
+  return Object.freeze(state);
 }
 
-const Store: StoreType = {
+const initialState: StoreState = {
   meditationSessions: [],
   presets: [],
+  sounds: [],
+  invalidRecords: [],
 };
 
+class ObservableStore {
+  private state: StoreState = freezeState({ ...initialState });
+  private subscriptions = new Set<Subscription<unknown>>();
+  private notifyScheduled = false;
+  // DID whose data the state holds, and held state for other accounts
+  private account: string | null = null;
+  private accountStates = new Map<string, StoreState>();
+
+  /**
+   * Returns the DID of the account whose data the Store holds
+   */
+  getAccount(): string | null {
+    return this.account;
+  }
+
+  /**
+   * Switches to another account's data. The current account's state is
+   * kept in memory, so switching back shows it again immediately.
+   * @param did - Account DID
+   * @returns true if data for the account was already held
+   */
+  setAccount(did: string): boolean {
+    if (did === this.account) return true;
+
+    if (this.account) {
+      this.accountStates.set(this.account, this.state);
+    }
+    this.account = did;
+
+    const held = this.accountStates.get(did);
+    this.accountStates.delete(did);
+    this.state = held ?? freezeState({ ...initialState });
+    this.scheduleNotify();
+    return held !== undefined;
+  }
+
+  /**
+   * Drops the data held for an account, e.g. after signing out of it
+   * @param did - Account DID
+   */
+  forgetAccount(did: string): void {
+    this.accountStates.delete(did);
+    if (did === this.account) {
+      this.account = null;
+      this.setState(initialState);
+    }
+  }
+
+  /**
+   * Returns the current state
+   */
+  getState(): StoreState {
+    return this.state;
+  }
+
+  /**
+   * Returns a value derived from the current state
+   * @param selector - Function picking the value from the state
+   */
+  select<T>(selector: Selector<T>): T {
+    return selector(this.state);
+  }
+
+  /**
+   * Replaces parts of the state. The change is visible immediately;
+   * subscribers are notified once the current task finishes.
+   * @param update - New values, or a function computing them from the
+   * current state
+   */
+  setState(update: StateUpdate): void {
+    const changes = typeof update === 'function' ? update(this.state) : update;
+    this.state = freezeState({ ...this.state, ...changes });
+    this.scheduleNotify();
+  }
+
+  /**
+   * Drops the data of every account, e.g. after signing out of all of them
+   */
+  reset(): void {
+    this.accountStates.clear();
+    this.account = null;
+    this.setState(initialState);
+  }
+
+  /**
+   * Registers a listener for changes to part of the state
+   * @param selector - Function picking the watched value from the state
+   * @param listener - Called with the new and previous value whenever the
+   * selected value changes
+   * @returns Function that removes the listener
+   */
+  subscribe<T>(selector: Selector<T>, listener: StoreListener<T>): () => void {
+    const subscription: Subscription<T> = {
+      selector,
+      listener,
+      value: selector(this.state),
+    };
+    this.subscriptions.add(subscription as Subscription<unknown>);
+    return () => {
+      this.subscriptions.delete(subscription as Subscription<unknown>);
+    };
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyScheduled) return;
+
+    this.notifyScheduled = true;
+    queueMicrotask(() => {
+      this.notifyScheduled = false;
+      this.notify();
+    });
+  }
+
+  private notify(): void {
+    // Copy first, so listeners may subscribe or unsubscribe while running
+    [...this.subscriptions].forEach((subscription) => {
+      if (!this.subscriptions.has(subscription)) return;
+
+      const value = subscription.selector(this.state);
+      if (Object.is(value, subscription.value)) return;
+
+      const previous = subscription.value;
+      subscription.value = value;
+      subscription.listener(value, previous);
+    });
+  }
+}
+
+const Store = new ObservableStore();
+
 export default Store;
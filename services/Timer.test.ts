@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MeditationTimer, TimerClock, TimerPhase, TimerTick } from './Timer';
+
+// Clock whose time only moves when a test advances it, running the
+// registered interval callbacks along the way
+class FakeClock implements TimerClock {
+  private time = 0;
+  private nextId = 1;
+  private intervals = new Map<
+    number,
+    { callback: () => void; ms: number; due: number }
+  >();
+
+  now(): number {
+    return this.time;
+  }
+
+  setInterval(callback: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.intervals.set(id, { callback, ms, due: this.time + ms });
+    return id;
+  }
+
+  clearInterval(id: unknown): void {
+    this.intervals.delete(id as number);
+  }
+
+  activeIntervals(): number {
+    return this.intervals.size;
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const next = [...this.intervals.values()].sort(
+        (a, b) => a.due - b.due
+      )[0];
+      if (!next || next.due > end) break;
+      this.time = next.due;
+      next.due += next.ms;
+      next.callback();
+    }
+    this.time = end;
+  }
+}
+
+describe('MeditationTimer', () => {
+  let clock: FakeClock;
+  let timer: MeditationTimer;
+  let ticks: TimerTick[];
+  let phases: TimerPhase[];
+  let completions: TimerTick[];
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    timer = new MeditationTimer(10, clock);
+    ticks = [];
+    phases = [];
+    completions = [];
+    timer.on('tick', (tick) => ticks.push(tick));
+    timer.on('phase', (phase) => phases.push(phase));
+    timer.on('complete', (tick) => completions.push(tick));
+  });
+
+  it('emits a tick at start and once per elapsed second', () => {
+    timer.start();
+    expect(phases).toEqual(['running']);
+    expect(ticks).toEqual([{ elapsed: 0, remaining: 10, duration: 10 }]);
+
+    clock.advance(3000);
+    expect(ticks.map((tick) => tick.elapsed)).toEqual([0, 1, 2, 3]);
+    expect(ticks[ticks.length - 1]).toEqual({
+      elapsed: 3,
+      remaining: 7,
+      duration: 10,
+    });
+    expect(timer.getElapsedSeconds()).toBe(3);
+  });
+
+  it('excludes paused time from the elapsed time', () => {
+    timer.start();
+    clock.advance(2000);
+    timer.pause();
+    const ticksWhilePaused = ticks.length;
+
+    clock.advance(60_000);
+    expect(ticks).toHaveLength(ticksWhilePaused);
+    expect(timer.getElapsedSeconds()).toBe(2);
+    expect(clock.activeIntervals()).toBe(0);
+
+    timer.resume();
+    clock.advance(3000);
+    expect(phases).toEqual(['running', 'paused', 'running']);
+    expect(timer.getElapsedSeconds()).toBe(5);
+    expect(timer.getRemainingSeconds()).toBe(5);
+  });
+
+  it('extends the duration and emits a tick right away', () => {
+    timer.start();
+    clock.advance(4000);
+    timer.extend(5);
+
+    expect(ticks[ticks.length - 1]).toEqual({
+      elapsed: 4,
+      remaining: 11,
+      duration: 15,
+    });
+    clock.advance(10_000);
+    expect(phases).not.toContain('completed');
+    clock.advance(1000);
+    expect(completions).toEqual([{ elapsed: 15, remaining: 0, duration: 15 }]);
+  });
+
+  it('completes once the duration has elapsed', () => {
+    timer.start();
+    clock.advance(12_000);
+
+    expect(phases).toEqual(['running', 'completed']);
+    expect(completions).toEqual([{ elapsed: 10, remaining: 0, duration: 10 }]);
+    expect(timer.getElapsedSeconds()).toBe(10);
+    expect(clock.activeIntervals()).toBe(0);
+
+    // Completed timers ignore further controls
+    timer.extend(5);
+    timer.pause();
+    timer.stop();
+    expect(timer.getDurationSeconds()).toBe(10);
+    expect(phases).toEqual(['running', 'completed']);
+  });
+
+  it('stops early without completing', () => {
+    timer.start();
+    clock.advance(2500);
+    timer.stop();
+    clock.advance(20_000);
+
+    expect(phases).toEqual(['running', 'stopped']);
+    expect(completions).toEqual([]);
+    expect(timer.getElapsedSeconds()).toBe(2.5);
+    expect(clock.activeIntervals()).toBe(0);
+
+    timer.start();
+    expect(timer.getPhase()).toBe('stopped');
+  });
+
+  it('excludes pauses from the time of a stopped session', () => {
+    timer.start();
+    clock.advance(1000);
+    timer.pause();
+    clock.advance(5000);
+    timer.resume();
+    clock.advance(1000);
+    timer.stop();
+
+    expect(timer.getElapsedSeconds()).toBe(2);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Countdown engine for meditation sessions.
+ * Elapsed time is measured against wall-clock timestamps rather than by
+ * counting interval callbacks, so the countdown stays accurate when the
+ * browser throttles timers in background tabs. The engine has no DOM
+ * dependencies; the clock can be replaced for testing.
+ */
+
+export type TimerPhase =
+  | 'idle'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'stopped';
+
+export interface TimerTick {
+  elapsed: number;
+  remaining: number;
+  duration: number;
+}
+
+interface TimerEvents {
+  tick: (tick: TimerTick) => void;
+  phase: (phase: TimerPhase) => void;
+  complete: (tick: TimerTick) => void;
+}
+
+/**
+ * Time source and scheduler used by the timer
+ */
+export interface TimerClock {
+  now(): number;
+  setInterval(callback: () => void, ms: number): unknown;
+  clearInterval(id: unknown): void;
+}
+
+const defaultClock: TimerClock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (id) => clearInterval(id as ReturnType<typeof setInterval>),
+};
+
+// Checking several times a second keeps the display within a fraction of a
+// second of the true time; tick events are still emitted once per second
+const POLL_INTERVAL_MS = 250;
+
+export class MeditationTimer {
+  private phase: TimerPhase = 'idle';
+  private durationMs: number;
+  // Time accumulated before the current running stretch began
+  private accumulatedMs = 0;
+  private runningSince: number | null = null;
+  private intervalId: unknown = null;
+  private lastTickSecond = -1;
+  private listeners: { [K in keyof TimerEvents]: Set<TimerEvents[K]> } = {
+    tick: new Set(),
+    phase: new Set(),
+    complete: new Set(),
+  };
+
+  /**
+   * @param durationInSeconds - Planned length of the session
+   * @param clock - Time source, replaceable in tests
+   */
+  constructor(
+    durationInSeconds: number,
+    private clock: TimerClock = defaultClock
+  ) {
+    this.durationMs = Math.max(0, durationInSeconds) * 1000;
+  }
+
+  /**
+   * Registers an event listener
+   * @param event - 'tick', 'phase' or 'complete'
+   * @param listener - Callback for the event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof TimerEvents>(
+    event: K,
+    listener: TimerEvents[K]
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  getPhase(): TimerPhase {
+    return this.phase;
+  }
+
+  /**
+   * Returns seconds actually spent running, excluding pauses
+   */
+  getElapsedSeconds(): number {
+    return this.getElapsedMs() / 1000;
+  }
+
+  /**
+   * Returns whole seconds left until completion
+   */
+  getRemainingSeconds(): number {
+    return Math.max(
+      0,
+      Math.ceil((this.durationMs - this.getElapsedMs()) / 1000)
+    );
+  }
+
+  /**
+   * Returns the current planned duration, including any extensions
+   */
+  getDurationSeconds(): number {
+    return this.durationMs / 1000;
+  }
+
+  /**
+   * Starts the countdown. Has no effect unless the timer is idle.
+   */
+  start(): void {
+    if (this.phase !== 'idle') return;
+
+    this.runningSince = this.clock.now();
+    this.startPolling();
+    this.setPhase('running');
+    this.poll();
+  }
+
+  /**
+   * Pauses the countdown. Has no effect unless running.
+   */
+  pause(): void {
+    if (this.phase !== 'running') return;
+
+    this.accumulatedMs = this.getElapsedMs();
+    this.runningSince = null;
+    this.stopPolling();
+    this.setPhase('paused');
+  }
+
+  /**
+   * Resumes a paused countdown
+   */
+  resume(): void {
+    if (this.phase !== 'paused') return;
+
+    this.runningSince = this.clock.now();
+    this.startPolling();
+    this.setPhase('running');
+    this.poll();
+  }
+
+  /**
+   * Adds time to the session. Has no effect once completed or stopped.
+   * @param seconds - Seconds to add
+   */
+  extend(seconds: number): void {
+    if (this.phase === 'completed' || this.phase === 'stopped') return;
+
+    this.durationMs += Math.max(0, seconds) * 1000;
+    this.emitTick(true);
+  }
+
+  /**
+   * Ends the countdown early without completing it
+   */
+  stop(): void {
+    if (this.phase === 'completed' || this.phase === 'stopped') return;
+
+    this.accumulatedMs = this.getElapsedMs();
+    this.runningSince = null;
+    this.stopPolling();
+    this.setPhase('stopped');
+  }
+
+  private getElapsedMs(): number {
+    const running =
+      this.runningSince !== null ? this.clock.now() - this.runningSince : 0;
+    return Math.min(this.durationMs, this.accumulatedMs + running);
+  }
+
+  private startPolling(): void {
+    this.stopPolling();
+    this.intervalId = this.clock.setInterval(
+      () => this.poll(),
+      POLL_INTERVAL_MS
+    );
+  }
+
+  private stopPolling(): void {
+    if (this.intervalId !== null) {
+      this.clock.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  // Emits a tick when the displayed second changes and detects completion
+  private poll(): void {
+    if (this.phase !== 'running') return;
+
+    this.emitTick(false);
+
+    if (this.getElapsedMs() >= this.durationMs) {
+      this.accumulatedMs = this.durationMs;
+      this.runningSince = null;
+      this.stopPolling();
+      this.setPhase('completed');
+      const tick = this.currentTick();
+      this.listeners.complete.forEach((listener) => listener(tick));
+    }
+  }
+
+  private emitTick(force: boolean): void {
+    const tick = this.currentTick();
+    const second = Math.floor(tick.elapsed);
+    if (!force && second === this.lastTickSecond) return;
+
+    this.lastTickSecond = second;
+    this.listeners.tick.forEach((listener) => listener(tick));
+  }
+
+  private currentTick(): TimerTick {
+    return {
+      elapsed: this.getElapsedSeconds(),
+      remaining: this.getRemainingSeconds(),
+      duration: this.getDurationSeconds(),
+    };
+  }
+
+  private setPhase(phase: TimerPhase): void {
+    this.phase = phase;
+    this.listeners.phase.forEach((listener) => listener(phase));
+  }
+}
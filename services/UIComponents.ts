@@ -32,7 +32,7 @@ export function formatSessionDate(isoString: string): string {
   const options: Intl.DateTimeFormatOptions = {
     weekday: 'long',
     month: 'long',
-    day: 'numeric'
+    day: 'numeric',
   };
   return date.toLocaleDateString('en-US', options);
 }
@@ -46,3 +46,123 @@ export function clearContainer(container: HTMLElement): void {
     container.removeChild(container.firstChild);
   }
 }
+
+/**
+ * Formats a number of seconds as MM:SS
+ * @param totalSeconds - Number of seconds
+ * @returns Formatted time string (e.g., "05:30")
+ */
+export function formatTime(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds
+    .toString()
+    .padStart(2, '0')}`;
+}
+
+/**
+ * Creates an SVG bar chart
+ * @param data - Bars to draw, in order, as { label, value }
+ * @param unit - Unit shown in each bar's tooltip (e.g., "min")
+ * @returns SVGSVGElement that scales to its container's width
+ */
+export function createBarChart(
+  data: { label: string; value: number }[],
+  unit: string
+): SVGSVGElement {
+  const svgNS = 'http://www.w3.org/2000/svg';
+  const width = 540;
+  const height = 200;
+  const labelHeight = 20;
+  const chartHeight = height - labelHeight;
+  const maxValue = Math.max(1, ...data.map((d) => d.value));
+  const slotWidth = width / Math.max(1, data.length);
+  const barWidth = slotWidth * 0.7;
+
+  const svg = document.createElementNS(svgNS, 'svg');
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  svg.setAttribute('class', 'bar-chart');
+  svg.setAttribute('role', 'img');
+
+  data.forEach((d, i) => {
+    const barHeight = (d.value / maxValue) * (chartHeight - 10);
+    const x = i * slotWidth + (slotWidth - barWidth) / 2;
+
+    const bar = document.createElementNS(svgNS, 'rect');
+    bar.setAttribute('x', x.toString());
+    bar.setAttribute('y', (chartHeight - barHeight).toString());
+    bar.setAttribute('width', barWidth.toString());
+    bar.setAttribute('height', barHeight.toString());
+    bar.setAttribute('class', 'bar');
+
+    const tooltip = document.createElementNS(svgNS, 'title');
+    tooltip.textContent = `${d.label}: ${d.value} ${unit}`;
+    bar.appendChild(tooltip);
+    svg.appendChild(bar);
+
+    const label = document.createElementNS(svgNS, 'text');
+    label.setAttribute('x', (x + barWidth / 2).toString());
+    label.setAttribute('y', (height - 5).toString());
+    label.setAttribute('text-anchor', 'middle');
+    label.setAttribute('class', 'bar-label');
+    label.textContent = d.label;
+    svg.appendChild(label);
+  });
+
+  return svg;
+}
+
+/**
+ * Elements rendered by updateKeyedList, by item key
+ */
+export type KeyedElements<T> = Map<string, { item: T; element: HTMLElement }>;
+
+/**
+ * Brings a list element in line with an array of items. Items are matched
+ * to existing elements by key; an element is rebuilt only when its item is
+ * a different object, so unchanged rows are left untouched.
+ * @param container - List element holding one child per item
+ * @param items - Items in display order
+ * @param getKey - Returns a stable key for an item
+ * @param render - Builds the element for an item
+ * @param rendered - Elements from the previous update, updated in place
+ */
+export function updateKeyedList<T>(
+  container: HTMLElement,
+  items: readonly T[],
+  getKey: (item: T) => string,
+  render: (item: T) => HTMLElement,
+  rendered: KeyedElements<T>
+): void {
+  const keys = new Set<string>();
+  let previous: HTMLElement | null = null;
+
+  items.forEach((item) => {
+    const key = getKey(item);
+    keys.add(key);
+
+    let entry = rendered.get(key);
+    if (!entry || entry.item !== item) {
+      const element = render(item);
+      entry?.element.replaceWith(element);
+      entry = { item, element };
+      rendered.set(key, entry);
+    }
+
+    // Move the element into place if items were added or reordered
+    const expected: ChildNode | null = previous
+      ? previous.nextSibling
+      : container.firstChild;
+    if (expected !== entry.element) {
+      container.insertBefore(entry.element, expected);
+    }
+    previous = entry.element;
+  });
+
+  rendered.forEach((entry, key) => {
+    if (!keys.has(key)) {
+      entry.element.remove();
+      rendered.delete(key);
+    }
+  });
+}
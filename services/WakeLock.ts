@@ -0,0 +1,56 @@
+/**
+ * Keeps the screen on during a meditation session. Phones that dim and lock
+ * suspend the page, so the countdown and bells would stop.
+ * Browsers drop a wake lock whenever the page is hidden, so it is requested
+ * again each time the page becomes visible until it is released.
+ */
+
+export class ScreenWakeLock {
+  private sentinel: WakeLockSentinel | null = null;
+  private active = false;
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') this.request();
+  };
+
+  /**
+   * Keeps the screen on until release() is called. Does nothing in
+   * browsers without the Screen Wake Lock API.
+   */
+  acquire(): void {
+    if (this.active || !('wakeLock' in navigator)) return;
+
+    this.active = true;
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    this.request();
+  }
+
+  /**
+   * Lets the screen dim and lock again
+   */
+  release(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.sentinel?.release().catch(() => undefined);
+    this.sentinel = null;
+  }
+
+  private async request(): Promise<void> {
+    if (!this.active || (this.sentinel && !this.sentinel.released)) return;
+
+    try {
+      const sentinel = await navigator.wakeLock.request('screen');
+      if (this.active) {
+        this.sentinel = sentinel;
+      } else {
+        // Released while the request was pending
+        await sentinel.release();
+      }
+    } catch (error) {
+      // E.g. denied in battery saver mode; the session runs anyway
+      console.warn('Screen wake lock unavailable:', error);
+    }
+  }
+}
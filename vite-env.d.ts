@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // URL the app is hosted at; unset for loopback development
+  readonly VITE_PUBLIC_URL?: string;
+  // Service used to resolve handles to DIDs
+  readonly VITE_HANDLE_RESOLVER?: string;
+  // PLC directory for did:plc lookups, e.g. a local development network
+  readonly VITE_PLC_DIRECTORY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,12 +1,111 @@
-import { defineConfig } from 'vite';
-
-export default defineConfig({
-  server: {
-    port: 8080,
-    host: '0.0.0.0', // Listen on all interfaces (localhost and 127.0.0.1)
-  },
-  build: {
-    outDir: 'dist',
-  },
-  publicDir: 'public',
+import { createHash } from 'node:crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+import {
+  CLIENT_METADATA_FILE,
+  buildClientMetadata,
+} from './services/OAuthConfig';
+import {
+  APP_ICONS,
+  MANIFEST_FILE,
+  SERVICE_WORKER_FILE,
+  buildManifest,
+  buildServiceWorker,
+} from './services/AppShell';
+
+/**
+ * Serves client-metadata.json in dev and writes it into the build output,
+ * generated from VITE_PUBLIC_URL. Loopback builds need no metadata file.
+ */
+function clientMetadataPlugin(publicUrl: string | undefined): Plugin {
+  const source = () =>
+    JSON.stringify(buildClientMetadata(publicUrl!), null, 2) + '\n';
+
+  return {
+    name: 'client-metadata',
+    configureServer(server) {
+      if (!publicUrl) return;
+      server.middlewares.use(`/${CLIENT_METADATA_FILE}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(source());
+      });
+    },
+    generateBundle() {
+      if (!publicUrl) return;
+      this.emitFile({
+        type: 'asset',
+        fileName: CLIENT_METADATA_FILE,
+        source: source(),
+      });
+    },
+  };
+}
+
+/**
+ * Serves the web app manifest in dev and writes it into the build output,
+ * with a service worker that caches every built file and the icons. The
+ * worker's cache is named after a hash of the files, so each build that
+ * changes them installs a fresh cache.
+ */
+function appShellPlugin(): Plugin {
+  const manifest = () => JSON.stringify(buildManifest(), null, 2) + '\n';
+
+  return {
+    name: 'app-shell',
+    // Runs after index.html has been added to the bundle
+    enforce: 'post',
+    configureServer(server) {
+      server.middlewares.use(`/${MANIFEST_FILE}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/manifest+json');
+        res.end(manifest());
+      });
+    },
+    generateBundle(_options, bundle) {
+      this.emitFile({
+        type: 'asset',
+        fileName: MANIFEST_FILE,
+        source: manifest(),
+      });
+
+      // The OAuth client metadata is read by authorization servers, not
+      // the app, and must never be served stale
+      const files = Object.keys(bundle)
+        .filter(
+          (fileName) =>
+            fileName !== CLIENT_METADATA_FILE &&
+            fileName !== SERVICE_WORKER_FILE
+        )
+        .sort();
+      const hash = createHash('sha256');
+      files.forEach((fileName) => {
+        const output = bundle[fileName];
+        hash.update(fileName);
+        hash.update(output.type === 'chunk' ? output.code : output.source);
+      });
+
+      this.emitFile({
+        type: 'asset',
+        fileName: SERVICE_WORKER_FILE,
+        source: buildServiceWorker(hash.digest('hex').slice(0, 16), [
+          ...files,
+          ...APP_ICONS.map((icon) => icon.src),
+        ]),
+      });
+    },
+  };
+}
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), 'VITE_');
+
+  return {
+    server: {
+      port: 8080,
+      host: '0.0.0.0', // Listen on all interfaces (localhost and 127.0.0.1)
+    },
+    build: {
+      outDir: 'dist',
+    },
+    publicDir: 'public',
+    plugins: [clientMetadataPlugin(env.VITE_PUBLIC_URL), appShellPlugin()],
+  };
 });